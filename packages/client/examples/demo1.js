@@ -1,10 +1,9 @@
 import { createClient } from "../dist/index.mjs";
 
-const uid = Math.random().toString(36).slice(2);
 const client = createClient({
   url: "wss://lo.yomo.dev:8443/v1",
-  publicKey: "kmJAUnCtkWbkNnhXYtZAGEJzGDGpFo1e1vkp6cm",
-  uid: uid,
+  // Your backend signs a token for the logged in user
+  authEndpoint: "/api/pilarjs-auth",
 });
 
 const { channel } = client.join("room-1");
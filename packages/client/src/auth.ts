@@ -0,0 +1,126 @@
+import { StopRetrying } from "./connection";
+import { b64decode, isPlainObject, tryParseJson } from "./lib/utils";
+
+/**
+ * Async callback that returns a signed token for the current user. Will be
+ * called with the ids of all channels the client has currently joined.
+ *
+ * Throw a `StopRetrying` error from this callback to tell the client to stop
+ * reconnecting, e.g. when the user is no longer allowed to connect.
+ */
+export type AuthenticateDelegate = (channelIds: string[]) => Promise<string>;
+
+export type AuthOptions =
+  | {
+      /**
+       * URL of an endpoint on your own backend that returns a signed token.
+       * The client will POST `{ "channelIds": [...] }` to it, and expects
+       * a `{ "token": "..." }` JSON response.
+       */
+      authEndpoint: string;
+      authenticate?: never;
+    }
+  | {
+      authEndpoint?: never;
+      /**
+       * Callback that returns a signed token. Use this if you need full
+       * control over how the token is obtained.
+       */
+      authenticate: AuthenticateDelegate;
+    };
+
+/**
+ * The claims we care about in the payload of a signed token.
+ */
+export type ParsedAuthToken = {
+  readonly raw: string;
+  readonly uid: string | null;
+};
+
+export function createAuthDelegate(options: AuthOptions): AuthenticateDelegate {
+  if (options.authenticate !== undefined) {
+    const authenticate = options.authenticate;
+    return async (channelIds) => {
+      const token = await authenticate(channelIds);
+      if (typeof token !== "string" || token === "") {
+        throw new StopRetrying(
+          "The authenticate callback should return a non-empty token string."
+        );
+      }
+      return token;
+    };
+  }
+
+  if (typeof options.authEndpoint === "string") {
+    const authEndpoint = options.authEndpoint;
+    return (channelIds) => fetchAuthEndpoint(authEndpoint, channelIds);
+  }
+
+  throw new Error(
+    "Invalid Pilarjs client options. Please provide either an `authEndpoint` or an `authenticate` option."
+  );
+}
+
+async function fetchAuthEndpoint(
+  endpoint: string,
+  channelIds: string[]
+): Promise<string> {
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ channelIds }),
+  });
+
+  if (res.status === 401 || res.status === 403) {
+    // Retrying won't help here, the backend refuses to hand out a token
+    throw new StopRetrying(
+      `Unauthorized: ${endpoint} responded with ${res.status}`
+    );
+  }
+
+  if (!res.ok) {
+    throw new Error(
+      `Failed to authenticate: ${endpoint} responded with ${res.status}`
+    );
+  }
+
+  const body = tryParseJson(await res.text());
+  if (
+    !isPlainObject(body) ||
+    typeof body.token !== "string" ||
+    body.token === ""
+  ) {
+    throw new StopRetrying(
+      `Expected ${endpoint} to respond with a JSON object like { "token": "..." }`
+    );
+  }
+
+  return body.token;
+}
+
+/**
+ * Reads the claims from the payload of a signed (JWT) token. Will not verify
+ * the token, that's up to the server. Tokens that cannot be decoded are
+ * treated as opaque, and will have no known claims.
+ */
+export function parseAuthToken(raw: string): ParsedAuthToken {
+  const parts = raw.split(".");
+  if (parts.length !== 3) {
+    return { raw, uid: null };
+  }
+
+  let payload: unknown;
+  try {
+    payload = tryParseJson(b64decode(parts[1]));
+  } catch {
+    payload = undefined;
+  }
+
+  return {
+    raw,
+    uid:
+      isPlainObject(payload) && typeof payload.uid === "string"
+        ? payload.uid
+        : null,
+  };
+}
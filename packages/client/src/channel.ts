@@ -1,13 +1,156 @@
-import { makeEventSource, type EventSource } from "./lib/EventSource";
+import {
+  ErrorCode,
+  PilarjsError,
+  type SendOptions,
+  type Status,
+} from "./connection";
+import {
+  makeEventSource,
+  type EventSource,
+  type UnsubscribeCallback,
+} from "./lib/EventSource";
 import { msgpack } from "./lib/MessagePack";
+import {
+  decodePresence,
+  type ChannelClientMsg,
+  type ChannelJoinServerMsg,
+  type PeerOfflineServerMsg,
+  type PeerOnlineServerMsg,
+  type PeerStateServerMsg,
+} from "./protocol";
 
-export type ChannelOptions = {
+/**
+ * Maximum amount of time the server may take to acknowledge our join, once
+ * connected.
+ */
+const JOIN_ACK_TIMEOUT = 10_000;
+
+/**
+ * Rejects `channel.ready` when the join could not be completed.
+ */
+export class ChannelJoinError extends PilarjsError {
+  /** @internal */
+  constructor(
+    message: string,
+    code: number,
+    public readonly channelId: string,
+    public readonly reason: "refused" | "timeout" | "left"
+  ) {
+    super(message, code);
+  }
+}
+
+/**
+ * The shape of the presence that connections share in a channel.
+ */
+export type Presence = Record<string, unknown>;
+
+/**
+ * Maps the name of every event that can be broadcast in a channel to the
+ * type of its payload.
+ */
+export type EventMap = Record<string, unknown>;
+
+/**
+ * A broadcast event, as received from a peer.
+ */
+export type DataEvent<TEvents extends EventMap = EventMap> = {
+  [K in keyof TEvents & string]: {
+    p: string;
+    pl: { event: K; data: TEvents[K] };
+  };
+}[keyof TEvents & string];
+
+/**
+ * A broadcast event, as delivered to listeners registered with `channel.on()`.
+ */
+export type BroadcastEvent<TEvents extends EventMap = EventMap> = {
+  [K in keyof TEvents & string]: {
+    event: K;
+    data: TEvents[K];
+    peerId: string;
+  };
+}[keyof TEvents & string];
+
+/**
+ * Options for a single broadcast.
+ */
+export type BroadcastOptions = {
+  /**
+   * How long (in milliseconds) the event is worth sending. If it can't be
+   * sent in time, e.g. because the client is reconnecting, it gets dropped.
+   * Useful for updates that quickly go stale, like cursor positions.
+   */
+  ttl?: number;
+
+  /**
+   * Only the latest event with this key is worth sending. If an earlier
+   * broadcast with the same key is still waiting to be sent, it gets
+   * replaced by this one. Useful for high-frequency updates, like cursor
+   * positions.
+   */
+  coalesceKey?: string;
+
+  /**
+   * Set to false for events that are fine to lose, like cursor positions.
+   * These are sent after all other broadcasts, and are the first to be
+   * dropped when the client's outgoing queue is full. Defaults to true.
+   */
+  reliable?: boolean;
+};
+
+export type ChannelOptions<TPresence extends Presence = Presence> = {
   id: string;
-  initialPresence: Record<string, unknown>;
-  sendMessages: (messages: any[]) => void;
+  initialPresence: TPresence;
+  sendMessages: (messages: ChannelClientMsg[], options?: SendOptions) => void;
+  discardMessages: (
+    predicate: (message: ChannelClientMsg) => boolean
+  ) => ChannelClientMsg[];
+  getConnectionStatus: () => Status;
+};
+
+/**
+ * The server messages that a channel handles, by event type.
+ */
+type ChannelEvents<TEvents extends EventMap> = {
+  joined: ChannelJoinServerMsg;
+  join_refused: ChannelJoinServerMsg;
+  data: DataEvent<TEvents>;
+  peer_online: PeerOnlineServerMsg;
+  peer_offline: PeerOfflineServerMsg;
+  peer_state: PeerStateServerMsg;
+};
+
+/**
+ * A callback registered with `.on()` or `.once()`, for a single event, or for
+ * all events ("*").
+ */
+type ListenerCallback<TEvents extends EventMap> =
+  | ((data: TEvents[keyof TEvents & string], peerId: string) => void)
+  | ((event: BroadcastEvent<TEvents>) => void);
+
+/**
+ * Another connection that is present in the channel.
+ */
+export type Peer<TPresence extends Presence = Presence> = {
+  readonly connectionId: string;
+  readonly userId: string;
+  readonly presence: TPresence;
+};
+
+/**
+ * Describes a single change to the list of others in a channel.
+ */
+export type OthersEvent<TPresence extends Presence = Presence> = {
+  type: "enter" | "leave" | "update";
+  peer: Peer<TPresence>;
+  others: readonly Peer<TPresence>[];
 };
 
-export type Channel = {
+export type Channel<
+  TPresence extends Presence = Presence,
+  TEvents extends EventMap = EventMap,
+> = {
   /**
    * The id of the channel.
    */
@@ -15,102 +158,748 @@ export type Channel = {
   /**
    * Handle an event from the channel.
    */
-  handleEvent(eventType: 'joined' | 'data' | 'peer_online' | 'peer_offline' | 'peer_state', event: any): void;
+  handleEvent<E extends keyof ChannelEvents<TEvents>>(
+    eventType: E,
+    event: ChannelEvents<TEvents>[E]
+  ): void;
+
+  /**
+   * Resolves once the server acknowledged that we joined the channel. Rejects
+   * with a `ChannelJoinError` if the server refuses the join, if it doesn't
+   * acknowledge it in time, or if the channel is left before that.
+   */
+  ready: Promise<void>;
+
+  /**
+   * Returns the connection status of this channel. The channel is only
+   * "connected" once the connection is open _and_ the server acknowledged that
+   * we joined the channel.
+   */
+  getStatus(): Status;
+
+  /**
+   * Returns our own presence in this channel.
+   */
+  getPresence(): TPresence;
+
+  /**
+   * Updates our own presence in this channel, and shares it with all peers.
+   * The patch is merged into the current presence. Keys set to `undefined`
+   * are removed. When updated again before the previous presence was sent,
+   * only the latest presence gets sent.
+   */
+  updatePresence(patch: Partial<TPresence>): void;
+
+  /**
+   * Returns all other connections that are currently present in this
+   * channel, along with their latest presence.
+   */
+  getOthers(): readonly Peer<TPresence>[];
 
   /**
    * Broadcast an event to the channel.
+   *
+   * Broadcasts wait in the client's outgoing queue until they can be sent.
+   * When that queue is full, they may be dropped, or this may throw
+   * a `QueueFullError`, depending on the client's `queue` options.
    */
-  broadcast<T>(event: string, data: T): void;
+  broadcast<K extends keyof TEvents & string>(
+    event: K,
+    data: TEvents[K],
+    options?: BroadcastOptions
+  ): void;
+
+  /**
+   * Registers a callback that gets called whenever a peer broadcasts the
+   * given event to this channel. Use "*" to listen to all events.
+   */
+  on<K extends keyof TEvents & string>(
+    event: K,
+    callback: (data: TEvents[K], peerId: string) => void
+  ): UnsubscribeCallback;
+  on(
+    event: "*",
+    callback: (event: BroadcastEvent<TEvents>) => void
+  ): UnsubscribeCallback;
+
+  /**
+   * Like `.on()`, but the callback is automatically unsubscribed after it
+   * got called once.
+   */
+  once<K extends keyof TEvents & string>(
+    event: K,
+    callback: (data: TEvents[K], peerId: string) => void
+  ): UnsubscribeCallback;
+  once(
+    event: "*",
+    callback: (event: BroadcastEvent<TEvents>) => void
+  ): UnsubscribeCallback;
+
+  /**
+   * Returns a promise that resolves with the payload of the first broadcast
+   * of the given event that matches the (optional) predicate. Rejects if the
+   * channel is left before that.
+   */
+  waitFor<K extends keyof TEvents & string>(
+    event: K,
+    predicate?: (data: TEvents[K], peerId: string) => boolean
+  ): Promise<TEvents[K]>;
 
   events: {
-    peerOnline: EventSource<unknown>;
-    peerOffline: EventSource<unknown>;
-    peerState: EventSource<unknown>;
-    data: EventSource<unknown>;
+    peerOnline: EventSource<PeerOnlineServerMsg>;
+    peerOffline: EventSource<PeerOfflineServerMsg>;
+    peerState: EventSource<PeerStateServerMsg>;
+    data: EventSource<DataEvent<TEvents>>;
+    status: EventSource<Status>;
+    othersDidChange: EventSource<OthersEvent<TPresence>>;
   }
 
+  /**
+   * Leaves the channel on the server, and removes all event listeners. The
+   * channel can no longer be used after this.
+   */
   destroy(): void;
 };
 
-export function createChannel(options: ChannelOptions): Channel {
-  const state = {}
-  options.sendMessages([{
-    t: "control",
-    op: "channel_join",
-    c: options.id,
-  }]);
+/**
+ * The hooks the client uses to keep a channel in sync with the connection.
+ * Not part of the public `Channel` type.
+ */
+export type ChannelInternals = {
+  /**
+   * Requests to join this channel, unless that has already been requested for
+   * the current connection. Needed whenever the server gets to see us on a new
+   * connection.
+   */
+  join(): void;
+
+  /**
+   * Handle a status change of the underlying connection.
+   */
+  handleConnectionStatusChange(): void;
+
+  /**
+   * Handle the join request for this channel being sent to the server. Starts
+   * waiting for the server to acknowledge it.
+   */
+  handleJoinSent(): void;
+
+  /**
+   * Handle the loss of the underlying connection. The server will forget
+   * about our membership of this channel, so we'll have to join it again on
+   * the next connection.
+   */
+  handleDisconnect(): void;
+};
+
+export function createChannel<
+  TPresence extends Presence,
+  TEvents extends EventMap,
+>(
+  options: ChannelOptions<TPresence>
+): Channel<TPresence, TEvents> & ChannelInternals {
+  let state: TPresence = { ...options.initialPresence };
+
+  // Whether a join has been sent (or queued) for the current connection
+  let joinRequested = false;
+  // Whether the server acknowledged our join on the current connection
+  let joined = false;
+  let hasEverJoined = false;
+  let lastStatus: Status | null = null;
+  let destroyed = false;
+  // Whether the server refused to let us join, in which case we stop trying
+  let refused = false;
+
+  let resolveReady: () => void = () => {};
+  let rejectReady: (error: ChannelJoinError) => void = () => {};
+  let readySettled = false;
+  let joinTimerID: ReturnType<typeof setTimeout> | undefined;
+  const ready = new Promise<void>((resolve, reject) => {
+    resolveReady = resolve;
+    rejectReady = reject;
+  });
+  // Nobody is obliged to wait for the channel to be ready, so don't report
+  // unhandled rejections
+  ready.catch(() => {});
+
+  // The peers we've seen come online on the current connection, by
+  // connection id
+  const others = new Map<string, Peer<TPresence>>();
+
+  // Listeners registered with .on() and friends, by event name (or "*"), so
+  // dispatching a broadcast doesn't require looking at every listener
+  const listeners = new Map<string, EventSource<BroadcastEvent<TEvents>>>();
+  let othersSnapshot: readonly Peer<TPresence>[] = [];
+
+  function join() {
+    if (joinRequested || destroyed || refused) {
+      return;
+    }
+
+    joinRequested = true;
+    options.sendMessages(
+      [
+        {
+          t: "control",
+          op: "channel_join",
+          c: options.id,
+        },
+      ],
+      { lane: "control" }
+    );
+  }
+
+  /**
+   * Only starts once the join actually went out, so the time the handshake
+   * takes doesn't count towards it.
+   */
+  function handleJoinSent() {
+    if (readySettled || !joinRequested || joinTimerID !== undefined) {
+      return;
+    }
+
+    joinTimerID = setTimeout(() => {
+      failReady(
+        new ChannelJoinError(
+          `Joining channel ${options.id} timed out`,
+          -1,
+          options.id,
+          "timeout"
+        )
+      );
+    }, JOIN_ACK_TIMEOUT);
+  }
+
+  function stopJoinTimer() {
+    clearTimeout(joinTimerID);
+    joinTimerID = undefined;
+  }
+
+  function settleReady() {
+    if (!readySettled) {
+      readySettled = true;
+      stopJoinTimer();
+      resolveReady();
+    }
+  }
+
+  function failReady(error: ChannelJoinError) {
+    if (!readySettled) {
+      readySettled = true;
+      stopJoinTimer();
+      rejectReady(error);
+    }
+  }
 
   const events = {
-    peerOnline: makeEventSource(),
-    peerOffline: makeEventSource(),
-    peerState: makeEventSource(),
-    data: makeEventSource(),
+    peerOnline: makeEventSource<PeerOnlineServerMsg>(),
+    peerOffline: makeEventSource<PeerOfflineServerMsg>(),
+    peerState: makeEventSource<PeerStateServerMsg>(),
+    data: makeEventSource<DataEvent<TEvents>>(),
+    status: makeEventSource<Status>(),
+    othersDidChange: makeEventSource<OthersEvent<TPresence>>(),
+  };
+
+  /**
+   * Peers are identified by their connection id, so the same user can be
+   * present from multiple tabs. Servers that don't send a connection id get
+   * one peer per user.
+   */
+  function toConnectionId(event: { p: string; cid?: string }): string {
+    return event.cid ?? event.p;
   }
 
-  function handleEvent(eventType: 'joined' | 'data' | 'peer_online' | 'peer_offline', event: any) {
-    if (eventType === 'joined') {
-      options.sendMessages([{
-        t: 'control',
-        op: 'peer_online',
+  function notifyOthersDidChange(
+    type: OthersEvent["type"],
+    peer: Peer<TPresence>
+  ) {
+    othersSnapshot = Array.from(others.values());
+    events.othersDidChange.notify({ type, peer, others: othersSnapshot });
+  }
+
+  function getOthers() {
+    return othersSnapshot;
+  }
+
+  /**
+   * Adds the peer to the others, or updates its presence. Returns whether the
+   * peer was new.
+   */
+  function upsertPeer(
+    event: PeerOnlineServerMsg | PeerStateServerMsg,
+    presence?: TPresence
+  ): boolean {
+    const connectionId = toConnectionId(event);
+    const existing = others.get(connectionId);
+    if (existing === undefined) {
+      const peer: Peer<TPresence> = {
+        connectionId,
+        userId: event.p,
+        // Until we receive its state, we don't know the peer's presence
+        presence: presence ?? ({} as TPresence),
+      };
+      others.set(connectionId, peer);
+      notifyOthersDidChange("enter", peer);
+      return true;
+    }
+
+    if (presence !== undefined) {
+      const peer: Peer<TPresence> = { ...existing, presence };
+      others.set(connectionId, peer);
+      notifyOthersDidChange("update", peer);
+    }
+    return false;
+  }
+
+  function removePeer(connectionId: string): boolean {
+    const peer = others.get(connectionId);
+    if (peer === undefined) {
+      return false;
+    }
+
+    others.delete(connectionId);
+    notifyOthersDidChange("leave", peer);
+    return true;
+  }
+
+  function getStatus(): Status {
+    if (refused) {
+      return "disconnected";
+    }
+
+    const connectionStatus = options.getConnectionStatus();
+    if (connectionStatus === "connected" && !joined) {
+      return hasEverJoined ? "reconnecting" : "connecting";
+    }
+    return connectionStatus;
+  }
+
+  function notifyIfStatusChanged() {
+    const currStatus = getStatus();
+    if (currStatus !== lastStatus) {
+      lastStatus = currStatus;
+      events.status.notify(currStatus);
+    }
+  }
+
+  function handleConnectionStatusChange() {
+    if (options.getConnectionStatus() !== "connected") {
+      joined = false;
+      stopJoinTimer();
+    }
+    notifyIfStatusChanged();
+  }
+
+  function handleDisconnect() {
+    joinRequested = false;
+    joined = false;
+
+    // Some of what's still queued only made sense on the old connection:
+    // - a join that didn't make it out will be requested again once
+    //   reconnected, so the server would see it twice
+    // - announcing ourselves is only valid after a join, but would overtake
+    //   our next join, as joins go first. We'll announce ourselves again once
+    //   re-joined.
+    options.discardMessages(
+      (message) =>
+        message.c === options.id &&
+        message.t === "control" &&
+        (message.op === "channel_join" ||
+          message.op === "peer_online" ||
+          message.op === "peer_state")
+    );
+
+    // We'll no longer hear about these peers going offline, so consider them
+    // gone. They will be announced again after we re-joined.
+    for (const peer of Array.from(others.values())) {
+      removePeer(peer.connectionId);
+      events.peerOffline.notify({
+        t: "control",
+        op: "peer_offline",
         c: options.id,
-      }]);
+        p: peer.userId,
+        cid: peer.connectionId,
+      });
+    }
+
+    notifyIfStatusChanged();
+  }
+
+  function handleEvent<E extends keyof ChannelEvents<TEvents>>(
+    eventType: E,
+    event: ChannelEvents<TEvents>[E]
+  ) {
+    if (destroyed) {
+      return;
+    }
+
+    if (eventType === 'joined') {
+      if (joined) {
+        // Duplicate acknowledgement, we've already announced ourselves
+        return;
+      }
+
+      joined = true;
+      hasEverJoined = true;
+      settleReady();
+      notifyIfStatusChanged();
+
+      options.sendMessages(
+        [
+          {
+            t: "control",
+            op: "peer_online",
+            c: options.id,
+          },
+        ],
+        { lane: "control" }
+      );
+
+      // Peers that were already online won't ask for our state again
+      syncState();
 
       return
     }
 
+    if (eventType === "join_refused") {
+      const payload = event as ChannelJoinServerMsg;
+      refused = true;
+      // The server never let us in, so there's nothing to leave
+      joinRequested = false;
+      joined = false;
+      failReady(
+        new ChannelJoinError(
+          payload.reason ?? `Not allowed to join channel ${options.id}`,
+          payload.code ?? -1,
+          options.id,
+          "refused"
+        )
+      );
+      notifyIfStatusChanged();
+      return;
+    }
+
     if (eventType === 'data') {
-      const payload = event as Record<string, any>;
+      const payload = event as DataEvent<TEvents>;
       events.data.notify(payload);
+
+      const broadcastEvent = {
+        event: payload.pl.event,
+        data: payload.pl.data,
+        peerId: payload.p,
+      } as BroadcastEvent<TEvents>;
+      listeners.get(payload.pl.event)?.notify(broadcastEvent);
+      listeners.get("*")?.notify(broadcastEvent);
       return
     }
 
     if (eventType === 'peer_online') {
-      const payload = event as Record<string, any>;
+      const payload = event as PeerOnlineServerMsg;
+      // Always share our state, the peer may have reconnected without us
+      // noticing it went offline
       syncState()
-      events.peerOnline.notify(payload);
+      if (upsertPeer(payload)) {
+        events.peerOnline.notify(payload);
+      }
       return
     }
 
     if (eventType === 'peer_offline') {
-      const payload = event as Record<string, any>;
-      events.peerOffline.notify(payload);
+      const payload = event as PeerOfflineServerMsg;
+      if (removePeer(toConnectionId(payload))) {
+        events.peerOffline.notify(payload);
+      }
       return
     }
 
     if (eventType === 'peer_state') {
-      const payload = event as Record<string, any>;
+      const payload = event as PeerStateServerMsg;
+      // A state may arrive before we heard the peer come online
+      upsertPeer(payload, decodePresence(payload.pl) as TPresence);
       events.peerState.notify(payload);
       return
     }
   }
 
-  function broadcast<T>(event: string, data: T) {
-    options.sendMessages([{
-      t: 'data',
-      c: options.id,
-      pl: msgpack.encode({
-        event, data,
-      }),
-    }]);
+  function broadcast<K extends keyof TEvents & string>(
+    event: K,
+    data: TEvents[K],
+    broadcastOptions?: BroadcastOptions
+  ) {
+    if (destroyed) {
+      return;
+    }
+
+    options.sendMessages(
+      [
+        {
+          t: "data",
+          c: options.id,
+          pl: msgpack.encode({
+            event,
+            data,
+          }),
+        },
+      ],
+      {
+        ttl: broadcastOptions?.ttl,
+        lane: broadcastOptions?.reliable === false ? "unreliable" : "reliable",
+        coalesceKey:
+          broadcastOptions?.coalesceKey !== undefined
+            ? toCoalesceKey("data", broadcastOptions.coalesceKey)
+            : undefined,
+      }
+    );
+  }
+
+  /**
+   * Scopes a coalesce key to this channel, and to the kind of message.
+   */
+  function toCoalesceKey(kind: "data" | "presence", key: string): string {
+    return JSON.stringify([options.id, kind, key]);
+  }
+
+  function getListeners(event: string) {
+    let source = listeners.get(event);
+    if (source === undefined) {
+      source = makeEventSource();
+      listeners.set(event, source);
+    }
+    return source;
+  }
+
+  function releaseListeners(event: string) {
+    if (listeners.get(event)?.count() === 0) {
+      listeners.delete(event);
+    }
+  }
+
+  function toBroadcastCallback(
+    event: string,
+    callback: ListenerCallback<TEvents>
+  ): (e: BroadcastEvent<TEvents>) => void {
+    if (event === "*") {
+      return callback as (e: BroadcastEvent<TEvents>) => void;
+    }
+
+    const onData = callback as (
+      data: TEvents[keyof TEvents & string],
+      peerId: string
+    ) => void;
+    return (e) => onData(e.data, e.peerId);
+  }
+
+  function on<K extends keyof TEvents & string>(
+    event: K,
+    callback: (data: TEvents[K], peerId: string) => void
+  ): UnsubscribeCallback;
+  function on(
+    event: "*",
+    callback: (event: BroadcastEvent<TEvents>) => void
+  ): UnsubscribeCallback;
+  function on(
+    event: string,
+    callback: ListenerCallback<TEvents>
+  ): UnsubscribeCallback {
+    const unsub = getListeners(event).subscribe(
+      toBroadcastCallback(event, callback)
+    );
+    return () => {
+      unsub();
+      releaseListeners(event);
+    };
+  }
+
+  function once<K extends keyof TEvents & string>(
+    event: K,
+    callback: (data: TEvents[K], peerId: string) => void
+  ): UnsubscribeCallback;
+  function once(
+    event: "*",
+    callback: (event: BroadcastEvent<TEvents>) => void
+  ): UnsubscribeCallback;
+  function once(
+    event: string,
+    callback: ListenerCallback<TEvents>
+  ): UnsubscribeCallback {
+    const listener = toBroadcastCallback(event, callback);
+    const unsub = getListeners(event).subscribe((e) => {
+      // Unsubscribe first, so the listeners can be released
+      off();
+      listener(e);
+    });
+    function off() {
+      unsub();
+      releaseListeners(event);
+    }
+    return off;
+  }
+
+  // Rejects the pending .waitFor() promises, when the channel is left
+  const waiters = new Set<() => void>();
+
+  function waitFor<K extends keyof TEvents & string>(
+    event: K,
+    predicate?: (data: TEvents[K], peerId: string) => boolean
+  ): Promise<TEvents[K]> {
+    return new Promise((resolve, reject) => {
+      if (destroyed) {
+        reject(leftWhileWaitingFor(event));
+        return;
+      }
+
+      const unsub = on(event, (data, peerId) => {
+        if (predicate === undefined || predicate(data, peerId)) {
+          settle();
+          resolve(data);
+        }
+      });
+      const cancel = () => {
+        settle();
+        reject(leftWhileWaitingFor(event));
+      };
+      function settle() {
+        unsub();
+        waiters.delete(cancel);
+      }
+      waiters.add(cancel);
+    });
+  }
+
+  function leftWhileWaitingFor(event: string): PilarjsError {
+    return new PilarjsError(
+      `Left channel ${options.id} while waiting for "${event}"`,
+      ErrorCode.CHANNEL_LEFT
+    );
+  }
+
+  function getPresence() {
+    return state;
+  }
+
+  function updatePresence(patch: Partial<TPresence>) {
+    const nextState: Presence = { ...state };
+    let changed = false;
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined) {
+        if (key in nextState) {
+          changed = true;
+          delete nextState[key];
+        }
+      } else if (nextState[key] !== value) {
+        changed = true;
+        nextState[key] = value;
+      }
+    }
+
+    if (!changed) {
+      return;
+    }
+
+    state = nextState as TPresence;
+
+    // Until the server acknowledged our join, there is nobody to tell. We'll
+    // share our presence as soon as we've joined.
+    if (joined) {
+      syncState();
+    }
   }
 
   function syncState() {
-    options.sendMessages([{
-      t: 'control',
-      op: 'peer_state',
-      c: options.id,
-      // p: this.#state.id,
-      pl: msgpack.encode(state)
-    }]);
+    options.sendMessages(
+      [
+        {
+          t: "control",
+          op: "peer_state",
+          c: options.id,
+          // p: this.#state.id,
+          pl: msgpack.encode(state),
+        },
+      ],
+      {
+        // Throttled, like broadcasts, but never dropped
+        lane: "reliable",
+        essential: true,
+        // Every state holds the full presence, so only the latest one is
+        // worth sending
+        coalesceKey: toCoalesceKey("presence", ""),
+      }
+    );
+  }
+
+  function destroy() {
+    if (destroyed) {
+      return;
+    }
+    destroyed = true;
+
+    // Anything for this channel that hasn't been sent yet is no longer
+    // relevant. If that includes our join, the server never saw us join.
+    const discarded = options.discardMessages(
+      (message) => message.c === options.id
+    );
+    const joinWasSent = !discarded.some(
+      (message) => message.t === "control" && message.op === "channel_join"
+    );
+
+    if (joinRequested && joinWasSent) {
+      options.sendMessages(
+        [
+          {
+            t: "control",
+            op: "channel_leave",
+            c: options.id,
+          },
+        ],
+        { lane: "control" }
+      );
+    }
+
+    joinRequested = false;
+    joined = false;
+    failReady(
+      new ChannelJoinError(
+        `Left channel ${options.id} before the join was acknowledged`,
+        -1,
+        options.id,
+        "left"
+      )
+    );
+    others.clear();
+    othersSnapshot = [];
+
+    events.peerOnline.clear();
+    events.peerOffline.clear();
+    events.peerState.clear();
+    events.data.clear();
+    events.status.clear();
+    events.othersDidChange.clear();
+    for (const cancel of Array.from(waiters)) {
+      cancel();
+    }
+    for (const source of listeners.values()) {
+      source.clear();
+    }
+    listeners.clear();
   }
 
   return {
     id: options.id,
+    ready,
     handleEvent,
+    handleConnectionStatusChange,
+    handleJoinSent,
+    handleDisconnect,
+    getStatus,
+    join,
+    getPresence,
+    updatePresence,
+    getOthers,
     broadcast,
+    on,
+    once,
+    waitFor,
     events,
-    destroy() {
-      // Clean up the channel
-    },
+    destroy,
   };
 }
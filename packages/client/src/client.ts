@@ -1,7 +1,47 @@
-import { createChannel, type Channel } from "./channel";
-import { ManagedSocket, type Status } from "./connection";
-import { msgpack } from "./lib/MessagePack";
-import { Transport as WsTransport } from './transport/WebSocket';
+import { createAuthDelegate, parseAuthToken, type AuthOptions } from "./auth";
+import {
+  createChannel,
+  type Channel,
+  type ChannelInternals,
+  type EventMap,
+  type Presence,
+} from "./channel";
+import {
+  isIdle,
+  ManagedSocket,
+  PilarjsError,
+  type ConnectionStats,
+  type LostConnectionEvent,
+  type QueueOptions,
+  type RetryAttemptEvent,
+  type RetryStrategy,
+  type SendOptions,
+  type Status,
+} from "./connection";
+import { assertNever } from "./lib/assert";
+import { makeEventSource, type Observable } from "./lib/EventSource";
+import { abortable } from "./lib/utils";
+import { createConsoleLogger, LogLevel, type Logger } from "./logger";
+import {
+  createServerMsgDispatcher,
+  decodeBroadcastPayload,
+  makeHelloMsg,
+  makePingMsg,
+  negotiateProtocol,
+  type ChannelClientMsg,
+  type HelloServerMsg,
+  type NegotiatedProtocol,
+  type ProtocolVersionError,
+  type ServerMsg,
+} from "./protocol";
+import type { ITransportInstance } from "./transport";
+import { AutoTransport, type TransportPreference } from "./transport/Auto";
+import { Transport as WsTransport } from "./transport/WebSocket";
+import {
+  isWebTransportSupported,
+  toWebTransportUrl,
+  Transport as WtTransport,
+} from "./transport/WebTransport";
 
 const MIN_THROTTLE = 16;
 const MAX_THROTTLE = 1_000;
@@ -13,15 +53,98 @@ const RECOMMENDED_MIN_LOST_CONNECTION_TIMEOUT = 1_000;
 const MAX_LOST_CONNECTION_TIMEOUT = 30_000;
 const DEFAULT_LOST_CONNECTION_TIMEOUT = 5_000;
 
-export type Client = {
-  join(
-    channelId: string
-  ): {
-    channel: Channel;
-    leave: () => void;
+const MIN_RETRY_TIMEOUT = 1_000;
+
+const MIN_HEARTBEAT_INTERVAL = 5_000;
+const MIN_PONG_TIMEOUT = 500;
+
+const MIN_STATS_INTERVAL = 1_000;
+
+/**
+ * Default maximum amount of time the server may take to reply to our hello.
+ */
+const DEFAULT_HANDSHAKE_TIMEOUT = 10_000;
+const MIN_HANDSHAKE_TIMEOUT = 1_000;
+
+export type JoinOptions<TPresence extends Presence = Presence> = {
+  /**
+   * The presence to start with when joining the channel. Ignored if the
+   * channel has already been joined.
+   */
+  initialPresence?: TPresence;
+};
+
+export type ChannelLease<
+  TPresence extends Presence = Presence,
+  TEvents extends EventMap = EventMap,
+> = {
+  channel: Channel<TPresence, TEvents>;
+  leave: () => void;
+};
+
+export type JoinAsyncOptions<TPresence extends Presence = Presence> =
+  JoinOptions<TPresence> & {
+    /**
+     * Stop waiting for the join to be acknowledged. The channel will be left
+     * again when aborted.
+     */
+    signal?: AbortSignal;
   };
 
-  getChannel(channelId: string): Channel | null;
+/**
+ * Counters about the traffic of a single channel, since it was joined. Bytes
+ * are those of the message payloads (presence and broadcast data).
+ */
+export type ChannelStats = {
+  messagesSent: number;
+  bytesSent: number;
+  messagesReceived: number;
+  bytesReceived: number;
+};
+
+export type ClientStats = ConnectionStats & {
+  /**
+   * Traffic per joined channel, by channel id.
+   */
+  channels: Record<string, ChannelStats>;
+};
+
+export type Client = {
+  /**
+   * Joins the channel. Optionally, declare the shape of the presence and
+   * a map of event names to payload types, to get a fully typed channel:
+   *
+   *   const { channel } = client.join<Cursor, { speak: { msg: string } }>(
+   *     "room-1"
+   *   );
+   */
+  join<
+    TPresence extends Presence = Presence,
+    TEvents extends EventMap = EventMap,
+  >(
+    channelId: string,
+    options?: JoinOptions<TPresence>
+  ): ChannelLease<TPresence, TEvents>;
+
+  /**
+   * Like `.join()`, but resolves only once the server acknowledged the join.
+   * Rejects with a `ChannelJoinError` if the join is refused or times out,
+   * in which case the channel is left again.
+   */
+  joinAsync<
+    TPresence extends Presence = Presence,
+    TEvents extends EventMap = EventMap,
+  >(
+    channelId: string,
+    options?: JoinAsyncOptions<TPresence>
+  ): Promise<ChannelLease<TPresence, TEvents>>;
+
+  getChannel<
+    TPresence extends Presence = Presence,
+    TEvents extends EventMap = EventMap,
+  >(
+    channelId: string
+  ): Channel<TPresence, TEvents> | null;
 
   /**
    * Purges all cached auth tokens and reconnects all rooms that are still
@@ -30,17 +153,157 @@ export type Client = {
    * Call this whenever you log out a user in your application.
    */
   logout(): void;
+
+  /**
+   * Connects to the server. Only needed when the client was created with
+   * `autoConnect: false`, or after calling `disconnect()`.
+   */
+  connect(): void;
+
+  /**
+   * Closes the connection to the server. All joined channels are kept, and
+   * will be re-joined on the next `connect()`.
+   */
+  disconnect(): void;
+
+  /**
+   * Closes the connection, tears down all channels, and releases all
+   * resources (like window event listeners) held by this client. The client
+   * can no longer be used after calling this.
+   */
+  destroy(): void;
+
+  /**
+   * Returns the current connection status of the client. Can be used to
+   * implement a connection status badge.
+   */
+  getStatus(): Status;
+
+  /**
+   * Returns the round-trip time (in milliseconds) to the server, as measured
+   * by the last heartbeat. Returns null until the first heartbeat has been
+   * answered.
+   */
+  getLatency(): number | null;
+
+  /**
+   * Returns counters about the connection and the traffic of every joined
+   * channel, e.g. to report the health of the client to your own monitoring.
+   */
+  getStats(): ClientStats;
+
+  readonly events: {
+    /**
+     * Emitted whenever the connection status of the client changes.
+     */
+    readonly status: Observable<Status>;
+
+    /**
+     * Emitted when the client has been trying to reconnect for longer than
+     * the `lostConnectionTimeout`, and again when the connection gets
+     * restored, or when the client gives up. Quick reconnects won't be
+     * reported, but giving up always is, even on the first connection
+     * attempt. A "failed" event is always preceded by a "lost" event.
+     */
+    readonly lostConnection: Observable<LostConnectionEvent>;
+
+    /**
+     * Emitted whenever the connection is closed for a known error reason,
+     * e.g. when authentication is refused. When the client stops retrying
+     * because of this, the error will be an `AuthenticationError`.
+     *
+     * Also emitted when the server reports an error, and with
+     * a `ProtocolError` when the server sends a message that doesn't follow
+     * the protocol.
+     *
+     * For known reasons, `error.code` is one of the `ErrorCode` values.
+     */
+    readonly error: Observable<PilarjsError>;
+
+    /**
+     * Emitted whenever a connection attempt failed, and the client will try
+     * again after a delay.
+     */
+    readonly retryAttempt: Observable<RetryAttemptEvent>;
+
+    /**
+     * Emitted with the round-trip time (in milliseconds) to the server, every
+     * time a heartbeat gets answered.
+     */
+    readonly latency: Observable<number>;
+
+    /**
+     * Emitted with the latest stats, every `statsInterval` milliseconds.
+     * Never emitted without a `statsInterval`.
+     */
+    readonly stats: Observable<ClientStats>;
+  };
 };
 
-export type ClientOptions = {
+export type ClientOptions = AuthOptions & {
   url: string;
-  publicKey: string;
-  uid: string;
   throttle?: number; // in milliseconds
   lostConnectionTimeout?: number; // in milliseconds
   backgroundKeepAliveTimeout?: number; // in milliseconds
-  
+
+  /**
+   * Whether to connect to the server right away. Defaults to true. When set
+   * to false, call `client.connect()` to connect.
+   */
   autoConnect?: boolean;
+
+  /**
+   * Which transport to connect with. Defaults to "websocket".
+   *
+   * With "auto", the client will try WebTransport first, and fall back to
+   * WebSocket if a WebTransport session cannot be established. Once it had to
+   * fall back, later reconnects will use WebSocket right away.
+   *
+   * With "webtransport", creating the client throws if WebTransport isn't
+   * available in this environment.
+   */
+  transport?: "websocket" | "webtransport" | "auto";
+
+  /**
+   * How to retry when connecting fails. By default, the client retries
+   * forever, with increasing delays.
+   */
+  retry?: RetryStrategy;
+
+  heartbeatInterval?: number; // in milliseconds
+  pongTimeout?: number; // in milliseconds
+
+  /**
+   * How long (in milliseconds) the server may take to answer the handshake
+   * on a new connection. When it doesn't answer in time, the client
+   * reconnects.
+   */
+  handshakeTimeout?: number;
+
+  /**
+   * Limits the broadcasts that wait to be sent, e.g. while reconnecting. By
+   * default, all of them are kept until they can be sent.
+   */
+  queue?: QueueOptions;
+
+  /**
+   * How often (in milliseconds) to emit the `stats` event. By default, no
+   * stats events are emitted, but `client.getStats()` can always be called.
+   */
+  statsInterval?: number;
+
+  /**
+   * Receives all log messages of the client. Defaults to logging warnings
+   * and errors to the console.
+   */
+  logger?: Logger;
+
+  /**
+   * Traces every state transition of the connection, at the debug level.
+   * When no `logger` is given, this also enables debug logging to the
+   * console.
+   */
+  debug?: boolean;
 };
 
 export function createClient(options: ClientOptions): Client {
@@ -67,107 +330,378 @@ export function createClient(options: ClientOptions): Client {
       )
     : undefined;
 
-  const managedSocket = new ManagedSocket({
-    authenticate:  () => Promise.resolve('no_auth'),
-    createTransport: () => new WsTransport(`${options.url}?publickey=${options.publicKey}&id=${options.uid}`),
-    canZombie: () => false,
-  }, true)
+  const retry = checkRetryStrategy(options.retry);
+
+  const heartbeatInterval =
+    options.heartbeatInterval !== undefined
+      ? checkBounds(
+          "heartbeatInterval",
+          options.heartbeatInterval,
+          MIN_HEARTBEAT_INTERVAL
+        )
+      : undefined;
+
+  const pongTimeout =
+    options.pongTimeout !== undefined
+      ? checkBounds("pongTimeout", options.pongTimeout, MIN_PONG_TIMEOUT)
+      : undefined;
+
+  const handshakeTimeout = checkBounds(
+    "handshakeTimeout",
+    options.handshakeTimeout ?? DEFAULT_HANDSHAKE_TIMEOUT,
+    MIN_HANDSHAKE_TIMEOUT
+  );
 
-  function onStatusDidChange(newStatus: Status) {}
+  const queue = checkQueueOptions(options.queue);
 
-  function onDidConnect() {
-    managedSocket.flush()
+  const statsInterval =
+    options.statsInterval !== undefined
+      ? checkBounds("statsInterval", options.statsInterval, MIN_STATS_INTERVAL)
+      : undefined;
+
+  const debug = options.debug ?? false;
+  const logger =
+    options.logger ??
+    createConsoleLogger(debug ? LogLevel.DEBUG : LogLevel.WARN);
+
+  type ChannelInfo = {
+    channel: Channel & ChannelInternals;
+    unsubs: Set<() => void>;
+  };
+
+  const channelsById = new Map<string, ChannelInfo>();
+
+  const transport = options.transport ?? "websocket";
+  if (!["websocket", "webtransport", "auto"].includes(transport)) {
+    throw new Error(
+      'transport should be one of "websocket", "webtransport" or "auto".'
+    );
+  }
+  if (transport === "webtransport" && !isWebTransportSupported()) {
+    throw new Error(
+      'WebTransport is not supported in this environment. Use transport "auto" to fall back to WebSocket.'
+    );
   }
 
-  function onDidDisconnect() {}
+  // Shared between reconnects, so "auto" stops trying WebTransport once it
+  // had to fall back
+  const transportPreference: TransportPreference = { kind: "webtransport" };
 
-  managedSocket.events.onMessage.subscribe(handleServerMessage);
-  managedSocket.events.statusDidChange.subscribe(onStatusDidChange);
-  managedSocket.events.didConnect.subscribe(onDidConnect);
-  managedSocket.events.didDisconnect.subscribe(onDidDisconnect);
+  function createTransport(authValue: string): ITransportInstance {
+    const address = makeSocketUrl(options.url, authValue);
+    switch (transport) {
+      case "websocket":
+        return new WsTransport(address, logger);
 
-  managedSocket.connect()
+      case "webtransport":
+        return new WtTransport(toWebTransportUrl(address), logger);
 
-  function handleServerMessage(data: Uint8Array) {
-    const event  = msgpack.decode(data) as Record<string, any>
-    console.log(event);
-    if (event.op === 'channel_join') {
-      const channelId = event.c as string
-      const channel = getChannel(channelId)
-      if (channel) {
-        channel.handleEvent('joined', event)
-      }
+      case "auto":
+        return new AutoTransport(
+          { websocket: address, webtransport: toWebTransportUrl(address) },
+          transportPreference,
+          logger
+        );
 
-      return
+      default:
+        return assertNever(transport, "Unknown transport");
     }
+  }
 
-    if (event.op === 'peer_online') {
-      if (event.p !== options.uid) {
-        const channelId = event.c as string
-        const channel = getChannel(channelId)
-        if (channel) {
-          channel.handleEvent('peer_online', event)
-        }
-      }
+  const authenticate = createAuthDelegate(options);
+
+  const managedSocket = new ManagedSocket(
+    {
+      authenticate: () => authenticate(Array.from(channelsById.keys())),
+      createTransport,
+      canZombie: () => backgroundKeepAliveTimeout !== undefined,
+      createPingMessage: makePingMsg,
+    },
+    {
+      enableDebugLogging: debug,
+      logger,
+      throttle,
+      backgroundKeepAliveTimeout,
+      retry,
+      heartbeatInterval,
+      pongTimeout,
+      queue,
     }
+  );
 
-    if (event.op === 'peer_offline') {
-      if (event.p !== options.uid) {
-        const channelId = event.c as string
-        const channel = getChannel(channelId)
-        if (channel) {
-          channel.handleEvent('peer_offline', event)
-        }
+  /**
+   * Returns the user id claimed by the current auth token, if known.
+   */
+  function getSelfId(): string | null {
+    const authValue = managedSocket.authValue;
+    return authValue !== null ? parseAuthToken(authValue).uid : null;
+  }
+
+  const lostConnection = makeEventSource<LostConnectionEvent>();
+
+  let lostConnectionTimerID: ReturnType<typeof setTimeout> | undefined;
+  let hasLostConnection = false;
+
+  function handleConnectionLoss(newStatus: Status) {
+    if (newStatus === "reconnecting") {
+      if (lostConnectionTimerID === undefined && !hasLostConnection) {
+        lostConnectionTimerID = setTimeout(() => {
+          lostConnectionTimerID = undefined;
+          hasLostConnection = true;
+          lostConnection.notify("lost");
+        }, lostConnectionTimeout);
       }
+      return;
     }
 
-    if (event.t === 'data') {
-      const channelId = event.c as string
-      const channel = getChannel(channelId)
-      if (channel) {
-        const payload = msgpack.decode(event.pl as Uint8Array) as Record<string, any>
-        channel.handleEvent('data', { p: event.p as string, pl: payload})
+    clearTimeout(lostConnectionTimerID);
+    lostConnectionTimerID = undefined;
+
+    if (newStatus === "disconnected") {
+      // The client gave up, or was told to stop trying. Worth reporting, no
+      // matter how quickly that happened.
+      if (!hasLostConnection) {
+        lostConnection.notify("lost");
       }
+      hasLostConnection = false;
+      lostConnection.notify("failed");
+    } else if (newStatus === "connected" && hasLostConnection) {
+      hasLostConnection = false;
+      lostConnection.notify("restored");
+    } else if (newStatus === "initial") {
+      // Deliberately disconnected, nothing to report
+      hasLostConnection = false;
+    }
+  }
 
-      return
+  function onStatusDidChange(newStatus: Status) {
+    handleConnectionLoss(newStatus);
+
+    for (const { channel } of channelsById.values()) {
+      channel.handleConnectionStatusChange();
     }
+  }
 
-    if (event.op === 'peer_state') {
-      const channelId = event.c as string
-      const channel = getChannel(channelId)
-      if (channel) {
-        channel.handleEvent('peer_state', event)
-      }
+  let handshakeTimerID: ReturnType<typeof setTimeout> | undefined;
+
+  // The id the server gave to the current connection, if any
+  let selfConnectionId: string | null = null;
+
+  function onDidConnect() {
+    // Agree on a protocol version before anything else gets sent. Until the
+    // server replies, all outgoing messages stay buffered.
+    managedSocket.sendImmediately([makeHelloMsg()]);
+    handshakeTimerID = setTimeout(() => {
+      handshakeTimerID = undefined;
+      // The server may just be busy, e.g. right after a restart, so try again
+      // after a delay
+      logger.warn(
+        `Server did not answer the handshake within ${handshakeTimeout}ms, reconnecting`
+      );
+      managedSocket.reconnect();
+    }, handshakeTimeout);
+  }
+
+  function onHandshake(msg: HelloServerMsg) {
+    if (handshakeTimerID === undefined) {
+      // Not expecting a hello (anymore)
+      return;
+    }
+    clearTimeout(handshakeTimerID);
+    handshakeTimerID = undefined;
+    selfConnectionId = msg.cid ?? null;
+
+    let protocol: NegotiatedProtocol;
+    try {
+      protocol = negotiateProtocol(msg);
+    } catch (err) {
+      managedSocket.fail(err as ProtocolVersionError);
+      return;
+    }
+    logger.debug("Negotiated protocol", {
+      version: protocol.version,
+      capabilities: protocol.capabilities,
+    });
+    managedSocket.setBatching(protocol.capabilities.includes("batching"));
+
+    // The server won't know about any of our channels on a new connection, so
+    // join them again
+    for (const { channel } of channelsById.values()) {
+      channel.join();
     }
+
+    managedSocket.flush();
   }
 
-  function sendMessages(messages: any[]) {
-    managedSocket.sendMessages(messages);
+  function onDidDisconnect() {
+    clearTimeout(handshakeTimerID);
+    handshakeTimerID = undefined;
+    selfConnectionId = null;
+
+    for (const { channel } of channelsById.values()) {
+      channel.handleDisconnect();
+    }
   }
 
-  type ChannelInfo = {
-    channel: Channel;
-    unsubs: Set<() => void>;
-  };
+  // Errors reported by the connection, as well as errors reported by the
+  // server in-band, or protocol violations
+  const errors = makeEventSource<PilarjsError>();
 
-  const channelsById = new Map<string, ChannelInfo>();
+  /**
+   * Whether the message is about this very connection. Other connections of
+   * the same user (e.g. other tabs) are peers like any other. Only servers
+   * that don't send connection ids identify peers by user id.
+   */
+  function isSelf(msg: { p: string; cid?: string }): boolean {
+    return msg.cid !== undefined
+      ? msg.cid === selfConnectionId
+      : msg.p === getSelfId();
+  }
+
+  function getPeerChannel(msg: {
+    c: string;
+    p: string;
+    cid?: string;
+  }): Channel | null {
+    // Don't list ourselves among the others
+    return !isSelf(msg) ? getChannel(msg.c) : null;
+  }
+
+  const channelStats = new Map<string, ChannelStats>();
+
+  function countMessage(
+    msg: ChannelClientMsg | ServerMsg,
+    direction: "sent" | "received"
+  ) {
+    if (!("c" in msg) || msg.c === undefined) {
+      return;
+    }
+
+    const stats = channelStats.get(msg.c);
+    if (stats === undefined) {
+      // Not (or no longer) joined
+      return;
+    }
+
+    const bytes = "pl" in msg ? msg.pl.byteLength : 0;
+    if (direction === "sent") {
+      stats.messagesSent++;
+      stats.bytesSent += bytes;
+    } else {
+      stats.messagesReceived++;
+      stats.bytesReceived += bytes;
+    }
+  }
+
+  function getStats(): ClientStats {
+    const channels: Record<string, ChannelStats> = {};
+    for (const [channelId, stats] of channelStats) {
+      channels[channelId] = { ...stats };
+    }
+    return { ...managedSocket.getStats(), channels };
+  }
+
+  const stats = makeEventSource<ClientStats>();
+  const statsTimerID =
+    statsInterval !== undefined
+      ? setInterval(() => stats.notify(getStats()), statsInterval)
+      : undefined;
+
+  const handleServerMessage = createServerMsgDispatcher(
+    {
+      hello: onHandshake,
+
+      pong() {
+        managedSocket.pong();
+      },
+
+      channel_join(msg) {
+        // The server sends a non-zero code when it refuses the join, e.g.
+        // because of permissions, or because the channel is full
+        getChannel(msg.c)?.handleEvent(
+          msg.code ? "join_refused" : "joined",
+          msg
+        );
+      },
+
+      peer_online(msg) {
+        getPeerChannel(msg)?.handleEvent("peer_online", msg);
+      },
+
+      peer_offline(msg) {
+        getPeerChannel(msg)?.handleEvent("peer_offline", msg);
+      },
+
+      peer_state(msg) {
+        getPeerChannel(msg)?.handleEvent("peer_state", msg);
+      },
+
+      data(msg) {
+        const channel = getChannel(msg.c);
+        if (channel) {
+          channel.handleEvent("data", {
+            p: msg.p,
+            pl: decodeBroadcastPayload(msg.pl),
+          });
+        }
+      },
+
+      error(msg) {
+        errors.notify(
+          new PilarjsError(msg.reason ?? `Server error ${msg.code}`, msg.code)
+        );
+      },
+    },
+    (error) => {
+      logger.warn(error.message, { code: error.code });
+      errors.notify(error);
+    },
+    logger,
+    (msg) => countMessage(msg, "received")
+  );
+
+  const unsubs = [
+    managedSocket.events.onMessage.subscribe(handleServerMessage),
+    managedSocket.events.onPilarjsError.subscribe(errors.notify),
+    managedSocket.events.statusDidChange.subscribe(onStatusDidChange),
+    managedSocket.events.didConnect.subscribe(onDidConnect),
+    managedSocket.events.didDisconnect.subscribe(onDidDisconnect),
+    managedSocket.events.didSendMessages.subscribe((messages) => {
+      for (const message of messages as ChannelClientMsg[]) {
+        countMessage(message, "sent");
+        if (message.t === "control" && message.op === "channel_join") {
+          channelsById.get(message.c)?.channel.handleJoinSent();
+        }
+      }
+    }),
+  ];
+
+  if (options.autoConnect ?? true) {
+    managedSocket.connect();
+  }
+
+  function sendMessages(
+    messages: ChannelClientMsg[],
+    sendOptions?: SendOptions
+  ) {
+    managedSocket.sendMessages(messages, sendOptions);
+  }
 
   function teardownChannel(channel: Channel) {
     channelsById.delete(channel.id);
+    channelStats.delete(channel.id);
     channel.destroy();
   }
 
-  function leaseChannel(info: ChannelInfo): {
-    channel: Channel;
-    leave: () => void;
-  } {
+  function leaseChannel(info: ChannelInfo): ChannelLease {
     // Create a new self-destructing leave function
     const leave = () => {
       const self = leave; // A reference to the currently executing function itself
 
       if (!info.unsubs.delete(self)) {
-        console.warn(
-          "This leave function was already called. Calling it more than once has no effect."
+        logger.warn(
+          "This leave function was already called. Calling it more than once has no effect.",
+          { channelId: info.channel.id }
         );
       } else {
         // Was this the last channel lease? If so, tear down the channel
@@ -184,21 +718,29 @@ export function createClient(options: ClientOptions): Client {
     };
   }
 
-  function join(
+  function join<
+    TPresence extends Presence = Presence,
+    TEvents extends EventMap = EventMap,
+  >(
     channelId: string,
-  ): {
-    channel: Channel;
-    leave: () => void;
-  } {
+    joinOptions?: JoinOptions<TPresence>
+  ): ChannelLease<TPresence, TEvents> {
+    // NOTE: We can't verify that the channel is used with the same types
+    // everywhere, that's up to the caller
     const existing = channelsById.get(channelId);
     if (existing !== undefined) {
-      return leaseChannel(existing);
+      return leaseChannel(existing) as ChannelLease<TPresence, TEvents>;
     }
 
-    const newChannel = createChannel({
+    const newChannel = createChannel<Presence, EventMap>({
       id: channelId,
-      initialPresence: {},
+      initialPresence: joinOptions?.initialPresence ?? {},
       sendMessages,
+      discardMessages: (predicate) =>
+        managedSocket.discardMessages((message) =>
+          predicate(message as ChannelClientMsg)
+        ) as ChannelClientMsg[],
+      getConnectionStatus: () => managedSocket.getStatus(),
     });
 
     const newChannelInfo: ChannelInfo = {
@@ -207,27 +749,141 @@ export function createClient(options: ClientOptions): Client {
     };
 
     channelsById.set(channelId, newChannelInfo);
+    channelStats.set(channelId, {
+      messagesSent: 0,
+      bytesSent: 0,
+      messagesReceived: 0,
+      bytesReceived: 0,
+    });
 
-    return leaseChannel(newChannelInfo);
+    // Only join once registered, so we notice when the join goes out
+    newChannel.join();
+
+    return leaseChannel(newChannelInfo) as ChannelLease<TPresence, TEvents>;
   }
 
-  function getChannel(channelId: string): Channel | null {
+  async function joinAsync<
+    TPresence extends Presence = Presence,
+    TEvents extends EventMap = EventMap,
+  >(
+    channelId: string,
+    joinOptions?: JoinAsyncOptions<TPresence>
+  ): Promise<ChannelLease<TPresence, TEvents>> {
+    joinOptions?.signal?.throwIfAborted();
+
+    const lease = join<TPresence, TEvents>(channelId, joinOptions);
+    try {
+      await abortable(lease.channel.ready, joinOptions?.signal);
+      return lease;
+    } catch (err) {
+      lease.leave();
+      throw err;
+    }
+  }
+
+  function getChannel<
+    TPresence extends Presence = Presence,
+    TEvents extends EventMap = EventMap,
+  >(channelId: string): Channel<TPresence, TEvents> | null {
     const channel = channelsById.get(channelId)?.channel;
-    return channel ? channel : null;
+    return channel ? (channel as Channel<TPresence, TEvents>) : null;
   }
 
 
   function logout() {
-    // TODO
+    managedSocket.purgeAuth();
+
+    // Nothing to reconnect if we're not connected (or trying to connect)
+    if (isIdle(managedSocket.getStatus())) {
+      return;
+    }
+
+    // Throws away the current connection, and obtains a new authValue before
+    // connecting again. All channels will be re-joined under the new
+    // identity once connected.
+    managedSocket.reconnect();
+  }
+
+  function connect() {
+    managedSocket.connect();
+  }
+
+  function disconnect() {
+    if (isIdle(managedSocket.getStatus())) {
+      return;
+    }
+
+    managedSocket.disconnect();
+  }
+
+  let destroyed = false;
+
+  function destroy() {
+    if (destroyed) {
+      return;
+    }
+    destroyed = true;
+
+    for (const { channel } of channelsById.values()) {
+      channel.destroy();
+    }
+    channelsById.clear();
+    channelStats.clear();
+
+    // Send the leaves (and anything else still queued) before the socket
+    // goes, unless the handshake is still in progress
+    if (
+      managedSocket.getStatus() === "connected" &&
+      handshakeTimerID === undefined
+    ) {
+      managedSocket.flush();
+    }
+
+    clearTimeout(lostConnectionTimerID);
+    clearTimeout(handshakeTimerID);
+    clearInterval(statsTimerID);
+    lostConnection.clear();
+    errors.clear();
+    stats.clear();
+
+    for (const unsub of unsubs) {
+      unsub();
+    }
+    managedSocket.destroy();
   }
 
   return {
     join,
+    joinAsync,
     getChannel,
     logout,
+    connect,
+    disconnect,
+    destroy,
+    getStatus: () => managedSocket.getStatus(),
+    getLatency: () => managedSocket.getLatency(),
+    getStats,
+    events: {
+      status: managedSocket.events.statusDidChange,
+      lostConnection: lostConnection.observable,
+      error: errors.observable,
+      retryAttempt: managedSocket.events.onRetryAttempt,
+      latency: managedSocket.events.onLatency,
+      stats: stats.observable,
+    },
   };
 }
 
+/**
+ * The signed token is passed along with the connection request, so the server
+ * can verify who is connecting before accepting the connection.
+ */
+function makeSocketUrl(baseUrl: string, authValue: string): string {
+  const url = new URL(baseUrl);
+  url.searchParams.set("token", authValue);
+  return url.toString();
+}
+
 function checkBounds(
   option: string,
   value: unknown,
@@ -248,3 +904,78 @@ function checkBounds(
   }
   return value;
 }
+
+function checkDelays(option: string, delays: readonly number[]): void {
+  if (
+    !Array.isArray(delays) ||
+    delays.length === 0 ||
+    delays.some(
+      (delay, i) =>
+        typeof delay !== "number" ||
+        delay < 1 ||
+        (i > 0 && delay < delays[i - 1])
+    )
+  ) {
+    throw new Error(
+      `${option} should be a non-empty list of increasing delays.`
+    );
+  }
+}
+
+function checkRetryStrategy(
+  retry: RetryStrategy | undefined
+): RetryStrategy | undefined {
+  if (retry === undefined) {
+    return undefined;
+  }
+
+  if (retry.delays !== undefined) {
+    checkDelays("retry.delays", retry.delays);
+  }
+  if (retry.slowDelays !== undefined) {
+    checkDelays("retry.slowDelays", retry.slowDelays);
+  }
+  if (
+    retry.jitter !== undefined &&
+    !["none", "full", "decorrelated"].includes(retry.jitter)
+  ) {
+    throw new Error(
+      'retry.jitter should be one of "none", "full" or "decorrelated".'
+    );
+  }
+  if (retry.maxAttempts !== undefined) {
+    checkBounds("retry.maxAttempts", retry.maxAttempts, 1);
+  }
+  if (retry.authTimeout !== undefined) {
+    checkBounds("retry.authTimeout", retry.authTimeout, MIN_RETRY_TIMEOUT);
+  }
+  if (retry.connectTimeout !== undefined) {
+    checkBounds(
+      "retry.connectTimeout",
+      retry.connectTimeout,
+      MIN_RETRY_TIMEOUT
+    );
+  }
+  return retry;
+}
+
+function checkQueueOptions(
+  queue: QueueOptions | undefined
+): QueueOptions | undefined {
+  if (queue === undefined) {
+    return undefined;
+  }
+
+  if (queue.maxSize !== undefined) {
+    checkBounds("queue.maxSize", queue.maxSize, 1);
+  }
+  if (
+    queue.overflow !== undefined &&
+    !["drop-oldest", "drop-newest", "reject"].includes(queue.overflow)
+  ) {
+    throw new Error(
+      'queue.overflow should be one of "drop-oldest", "drop-newest" or "reject".'
+    );
+  }
+  return queue;
+}
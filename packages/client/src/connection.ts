@@ -1,9 +1,23 @@
-import { assertNever } from "./lib/assert";
+import { assertNever, nn } from "./lib/assert";
 import { makeEventSource, type Observable } from "./lib/EventSource";
-import * as console from "./lib/fancy-console";
-import { FSM, type BuiltinEvent, type Patchable, type Target } from "./lib/fsm";
+import {
+  FSM,
+  type BuiltinEvent,
+  type Patchable,
+  type Target,
+  type TargetObject,
+  type TimerEvent,
+} from "./lib/FSM";
 import { msgpack } from "./lib/MessagePack";
 import { withTimeout } from "./lib/utils";
+import {
+  createConsoleLogger,
+  logAtLevel,
+  LogLevel,
+  withFields,
+  type LogFields,
+  type Logger,
+} from "./logger";
 import {
   TransportEventType,
   TransportReadyState,
@@ -46,7 +60,20 @@ export function isIdle(status: Status): status is "initial" | "disconnected" {
 export type LostConnectionEvent =
   | "lost" // the client is trying to reconnect to server, but it's taking (much) longer than usual
   | "restored" // the client did reconnect after all
-  | "failed"; // the client was told to stop trying
+  | "failed"; // the client gave up, or was told to stop trying
+
+/**
+ * Returns the current state of the machine, or undefined if it isn't running.
+ */
+function currentStateOf(
+  machine: FSM<Context, Event, State>
+): State | undefined {
+  try {
+    return machine.currentState;
+  } catch {
+    return undefined;
+  }
+}
 
 /**
  * Maps internal machine state to the public Status API.
@@ -85,14 +112,17 @@ type Event =
   | { type: "CONNECT" } // e.g. when trying to enter a room
   | { type: "RECONNECT" } // e.g. user asking for an explicit reconnect of the socket
   | { type: "DISCONNECT" } // e.g. leaving the room
+  | { type: "PURGE_AUTH" } // e.g. when the user logs out
   | { type: "WINDOW_GOT_FOCUS" } // e.g. user's browser tab is refocused
   | { type: "NAVIGATOR_ONLINE" } // e.g. browser gets back online
   | { type: "NAVIGATOR_OFFLINE" } // e.g. browser goes offline
+  | { type: "WINDOW_HIDDEN_TIMEOUT" } // e.g. browser tab has been hidden for longer than the backgroundKeepAliveTimeout
 
   // Events that the connection manager will internally deal with
   | { type: "PONG" }
   | { type: "EXPLICIT_SOCKET_ERROR"; event: ITransportEvent }
   | { type: "EXPLICIT_SOCKET_CLOSE"; event: ITransportCloseEvent }
+  | { type: "FATAL_ERROR"; error: PilarjsError } // e.g. when the server speaks an incompatible protocol
 
   // Only used by the E2E testing app, to simulate a pong timeout :(
   | { type: "PONG_TIMEOUT" };
@@ -136,41 +166,256 @@ type Context = {
    * a connection succeeded.
    */
   backoffDelay: number;
-};
 
-const BACKOFF_DELAYS = [250, 500, 1_000, 2_000, 4_000, 8_000, 10_000] as const;
+  /**
+   * The amount of time to actually wait before the next attempt. Same as the
+   * backoffDelay, unless jitter is applied.
+   */
+  retryDelay: number;
+
+  /**
+   * The number of consecutive failed attempts. Reset every time a connection
+   * succeeded, or when the machine becomes idle.
+   */
+  retryAttempts: number;
+};
 
-// Resetting the delay happens upon success. We could reset to 0, but that
-// would risk no delay, which generally isn't wise. Instead, we'll reset it to
-// the lowest safe delay minus 1 millisecond. The reason is that every time
-// a retry happens, the retry delay will first be bumped to the next "tier".
-const RESET_DELAY = BACKOFF_DELAYS[0] - 1;
+const DEFAULT_BACKOFF_DELAYS = [
+  250, 500, 1_000, 2_000, 4_000, 8_000, 10_000,
+] as const;
 
 /**
  * Used to back off from reconnection attempts after a known
  * server issue, like "channel full" or a "rate limit" error.
  */
-const BACKOFF_DELAYS_SLOW = [2_000, 30_000, 60_000, 300_000] as const;
+const DEFAULT_BACKOFF_DELAYS_SLOW = [2_000, 30_000, 60_000, 300_000] as const;
 
 /**
- * The client will send a PING to the server every 28 seconds, after which it
- * must receive a PONG back within the next 2 seconds. If that doesn't happen,
- * this is interpreted as an implicit connection loss event.
+ * By default, the client will send a PING to the server every 28 seconds,
+ * after which it must receive a PONG back within the next 2 seconds. If that
+ * doesn't happen, this is interpreted as an implicit connection loss event.
  */
-const HEARTBEAT_INTERVAL = 28_000;
-const PONG_TIMEOUT = 2_000;
+const DEFAULT_HEARTBEAT_INTERVAL = 28_000;
+const DEFAULT_PONG_TIMEOUT = 2_000;
 
 /**
  * Maximum amount of time that the authentication delegate take to return an
  * auth authValue, or else we consider authentication timed out.
  */
-const AUTH_TIMEOUT = 10_000;
+const DEFAULT_AUTH_TIMEOUT = 10_000;
 
 /**
  * Maximum amount of time that the connect delegate may take to return
  * an opened connection, or else we consider the attempt timed out.
  */
-const TRANSPORT_CONNECT_TIMEOUT = 10_000;
+const DEFAULT_TRANSPORT_CONNECT_TIMEOUT = 10_000;
+
+/**
+ * Controls how the client retries when it fails to (re)connect.
+ */
+export type RetryStrategy = {
+  /**
+   * The retry delays (in milliseconds). Every failed attempt bumps the delay
+   * to the next tier, until the last one is reached.
+   */
+  delays?: readonly number[];
+
+  /**
+   * The retry delays (in milliseconds) to use when the server asks us to
+   * back off, e.g. when we're rate limited.
+   */
+  slowDelays?: readonly number[];
+
+  /**
+   * Randomizes the retry delays, so that clients don't all reconnect at the
+   * same time after a server restart.
+   *
+   * - "none": wait exactly the current delay (the default)
+   * - "full": wait a random amount of time, between the first delay and the
+   *   current delay
+   * - "decorrelated": wait a random amount of time, between the first delay
+   *   and three times the previous wait, capped at the last delay
+   */
+  jitter?: "none" | "full" | "decorrelated";
+
+  /**
+   * Give up after this many consecutive failed attempts. Retries forever by
+   * default.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Maximum amount of time (in milliseconds) that obtaining a token may take.
+   */
+  authTimeout?: number;
+
+  /**
+   * Maximum amount of time (in milliseconds) that opening the connection may
+   * take.
+   */
+  connectTimeout?: number;
+};
+
+/**
+ * Emitted whenever the client is about to retry after a failed attempt.
+ */
+export type RetryAttemptEvent = {
+  /**
+   * The number of consecutive failed attempts so far.
+   */
+  attempt: number;
+
+  /**
+   * How long (in milliseconds) the client will wait before the next attempt.
+   */
+  delay: number;
+
+  /**
+   * What will be retried: obtaining a token, or opening the connection.
+   */
+  stage: "auth" | "connecting";
+};
+
+/**
+ * Counters about the connection, since the client was created.
+ */
+export type ConnectionStats = {
+  /**
+   * Frames (and their size in bytes) sent to the server, including
+   * heartbeats.
+   */
+  framesSent: number;
+  bytesSent: number;
+
+  /**
+   * Frames (and their size in bytes) received from the server.
+   */
+  framesReceived: number;
+  bytesReceived: number;
+
+  /**
+   * The number of times the client had to try connecting again, after
+   * a failed attempt or a lost connection.
+   */
+  reconnectAttempts: number;
+
+  /**
+   * Total time (in milliseconds) spent in each group of connection states.
+   */
+  timeInState: Record<StateGroup, number>;
+
+  /**
+   * The number of messages waiting to be sent.
+   */
+  queueDepth: number;
+
+  /**
+   * The number of messages that were discarded before they could be sent.
+   */
+  droppedMessages: number;
+
+  /**
+   * The number of messages that were replaced by a newer message with the
+   * same coalesce key, before they could be sent.
+   */
+  coalescedMessages: number;
+};
+
+type StateGroup = "idle" | "auth" | "connecting" | "ok";
+
+/**
+ * What to do with a message that doesn't fit in the outgoing queue anymore:
+ * - drop-oldest: drop the oldest queued message to make room for it
+ * - drop-newest: drop the message itself
+ * - reject: throw a `QueueFullError`
+ */
+export type OverflowPolicy = "drop-oldest" | "drop-newest" | "reject";
+
+/**
+ * Limits the messages that wait to be sent, e.g. while disconnected.
+ */
+export type QueueOptions = {
+  /**
+   * The maximum number of messages in the queue. Defaults to no limit.
+   */
+  maxSize?: number;
+
+  /**
+   * What to do with a broadcast when the queue is full. Defaults to
+   * "drop-oldest", which drops unreliable broadcasts before reliable ones.
+   *
+   * Messages that must not get lost, like joins and presence updates, are
+   * never dropped or rejected. They take the place of the oldest broadcast
+   * instead.
+   */
+  overflow?: OverflowPolicy;
+};
+
+/**
+ * The outgoing queue has a lane per priority. Whenever messages get sent,
+ * those of a higher priority lane go first:
+ * - control: never dropped, and sent right away, without waiting for the
+ *   throttle. Only for messages that are rare, like joins, leaves and
+ *   announcing ourselves to peers
+ * - reliable: sent at most once per throttle window, and only dropped when
+ *   the queue is full
+ * - unreliable: like reliable, but the first to go when the queue is full
+ */
+export type Lane = "control" | "reliable" | "unreliable";
+
+// In order of priority
+const LANES: readonly Lane[] = ["control", "reliable", "unreliable"];
+
+export type SendOptions = {
+  /**
+   * How long (in milliseconds) the message is worth sending. When it has
+   * been waiting in the queue for longer, it will be dropped instead.
+   */
+  ttl?: number;
+
+  /**
+   * Which lane of the queue to send the message through. Defaults to
+   * "reliable".
+   */
+  lane?: Lane;
+
+  /**
+   * Essential messages are never dropped or rejected when the queue is full.
+   * They take the place of the oldest message that isn't essential instead.
+   * Control messages are always essential.
+   */
+  essential?: boolean;
+
+  /**
+   * Only the latest value matters for messages with this key. The message
+   * replaces a queued message with the same key, if that hasn't been sent
+   * yet.
+   */
+  coalesceKey?: string;
+};
+
+/**
+ * A message waiting in the outgoing queue.
+ */
+type QueuedMessage = {
+  message: unknown;
+  expiresAt: number;
+  lane: Lane;
+  essential: boolean;
+  coalesceKey: string | undefined;
+};
+
+/**
+ * Default minimum amount of time between two outgoing frames.
+ */
+const DEFAULT_THROTTLE = 100;
+
+/**
+ * Maximum size in bytes of a frame holding a batch of messages. Larger batches
+ * get split over several frames, as a WebTransport datagram can't carry much
+ * more than this.
+ */
+const MAX_FRAME_SIZE = 1_000;
 
 /**
  * Special error class that can be thrown during authentication to stop the
@@ -192,6 +437,89 @@ export class PilarjsError extends Error {
   }
 }
 
+/**
+ * Emitted when the authentication delegate tells the client to stop retrying,
+ * e.g. because the auth endpoint refuses to hand out a token.
+ */
+export class AuthenticationError extends PilarjsError {
+  /** @internal */
+  constructor(message: string) {
+    super(message, ErrorCode.AUTH_INVALID);
+  }
+}
+
+/**
+ * Thrown when sending a message while the outgoing queue is full, and its
+ * overflow policy is "reject".
+ */
+export class QueueFullError extends PilarjsError {
+  /** @internal */
+  constructor(public readonly maxSize: number) {
+    super(`Outgoing queue is full (${maxSize} messages)`, ErrorCode.QUEUE_FULL);
+  }
+}
+
+/**
+ * Codes for known error reasons. Available as `error.code` on errors emitted
+ * (or thrown) by the client.
+ *
+ * The 40xx codes are used by the server, when it closes the connection or
+ * reports an error. The 49xx codes are only used by the client itself.
+ */
+export enum ErrorCode {
+  AUTH_INVALID = 4001,
+  RATE_LIMITED = 4002,
+  CHANNEL_FULL = 4003,
+  SERVER_SHUTTING_DOWN = 4004,
+  PROTOCOL_MISMATCH = 4005,
+
+  CHANNEL_LEFT = 4901,
+  RETRIES_EXHAUSTED = 4902,
+  QUEUE_FULL = 4903,
+}
+
+/**
+ * The codes the server may close the connection with.
+ */
+type ServerErrorCode = Exclude<
+  ErrorCode,
+  ErrorCode.CHANNEL_LEFT | ErrorCode.RETRIES_EXHAUSTED | ErrorCode.QUEUE_FULL
+>;
+
+/**
+ * How to proceed after the server closed the connection:
+ * - fail: stop trying, as retrying won't help
+ * - backoff: reconnect after the regular backoff delay
+ * - backoff-slow: reconnect after a much longer delay, to give the server
+ *   some room
+ * - reauthenticate: obtain a new token before reconnecting
+ */
+export type RetryPolicy =
+  | "fail"
+  | "backoff"
+  | "backoff-slow"
+  | "reauthenticate";
+
+const RETRY_POLICIES: Record<ServerErrorCode, RetryPolicy> = {
+  [ErrorCode.AUTH_INVALID]: "reauthenticate",
+  [ErrorCode.RATE_LIMITED]: "backoff-slow",
+  [ErrorCode.CHANNEL_FULL]: "backoff-slow",
+  [ErrorCode.SERVER_SHUTTING_DOWN]: "backoff",
+  [ErrorCode.PROTOCOL_MISMATCH]: "fail",
+};
+
+export function isErrorCode(code: number): code is ServerErrorCode {
+  return code in RETRY_POLICIES;
+}
+
+/**
+ * Returns the retry policy for the given close code. Closes for any other
+ * reason, like network issues, are retried with the regular backoff.
+ */
+export function getRetryPolicy(code: number): RetryPolicy {
+  return isErrorCode(code) ? RETRY_POLICIES[code] : "backoff";
+}
+
 function nextBackoffDelay(
   currentDelay: number,
   delays: readonly number[]
@@ -201,75 +529,123 @@ function nextBackoffDelay(
   );
 }
 
-function increaseBackoffDelay(context: Patchable<Context>) {
-  context.patch({
-    backoffDelay: nextBackoffDelay(context.backoffDelay, BACKOFF_DELAYS),
-  });
+function applyJitter(
+  jitter: Required<RetryStrategy>["jitter"],
+  delay: number,
+  previousDelay: number,
+  delays: readonly number[]
+): number {
+  switch (jitter) {
+    case "none":
+      return delay;
+
+    case "full": {
+      // Never retry sooner than the lowest safe delay
+      const min = Math.min(delays[0], delay);
+      return Math.round(min + Math.random() * (delay - min));
+    }
+
+    case "decorrelated": {
+      const min = delays[0];
+      const max = Math.max(min, previousDelay * 3);
+      return Math.min(
+        delays[delays.length - 1],
+        Math.round(min + Math.random() * (max - min))
+      );
+    }
+
+    // istanbul ignore next
+    default:
+      return assertNever(jitter, "Unknown jitter");
+  }
 }
 
-function increaseBackoffDelayAggressively(context: Patchable<Context>) {
-  context.patch({
-    backoffDelay: nextBackoffDelay(context.backoffDelay, BACKOFF_DELAYS_SLOW),
-  });
+/**
+ * Encodes the messages into as few frames as possible, each holding an array
+ * of messages of at most MAX_FRAME_SIZE bytes. A message that's larger than
+ * that on its own gets a frame of its own.
+ */
+function encodeFrames(messages: readonly unknown[]): Uint8Array[] {
+  // Room for the header of the array
+  const HEADER_SIZE = 5;
+
+  const frames: Uint8Array[] = [];
+  let batch: unknown[] = [];
+  let batchSize = HEADER_SIZE;
+  for (const message of messages) {
+    const size = msgpack.encode(message).length;
+    if (batch.length > 0 && batchSize + size > MAX_FRAME_SIZE) {
+      frames.push(msgpack.encode(batch));
+      batch = [];
+      batchSize = HEADER_SIZE;
+    }
+    batch.push(message);
+    batchSize += size;
+  }
+  if (batch.length > 0) {
+    frames.push(msgpack.encode(batch));
+  }
+  return frames;
 }
 
 function resetSuccessCount(context: Patchable<Context>) {
   context.patch({ successCount: 0 });
 }
 
-enum LogLevel {
-  INFO,
-  WARN,
-  ERROR,
-}
-
 /**
  * Generic "log" effect. Use it in `effect` handlers of state transitions.
  */
-function log(level: LogLevel, message: string) {
-  const logger =
-    level === LogLevel.ERROR
-      ? console.error
-      : level === LogLevel.WARN
-        ? console.warn
-        : /* black hole */ () => {};
+function log(
+  logger: Logger,
+  level: LogLevel,
+  message: string,
+  fields?: LogFields
+) {
   return () => {
-    logger(message);
+    logAtLevel(logger, level, message, fields);
   };
 }
 
-function logPrematureErrorOrCloseEvent(e: ITransportEvent | Error) {
+function logPrematureErrorOrCloseEvent(
+  logger: Logger,
+  e: ITransportEvent | Error
+) {
   // Produce a useful log message
   const conn = "Connection to server";
   return (ctx: Readonly<Context>) => {
     if (e instanceof Error) {
-      console.warn(`${conn} could not be established. ${String(e)}`);
+      logger.warn(`${conn} could not be established. ${String(e)}`);
     } else {
-      console.warn(
+      logger.warn(
         isCloseEvent(e)
-          ? `${conn} closed prematurely. Retrying in ${ctx.backoffDelay}ms.`
+          ? `${conn} closed prematurely. Retrying in ${ctx.retryDelay}ms.`
           : `${conn} could not be established.`
       );
     }
   };
 }
 
-function logCloseEvent(event: ITransportCloseEvent) {
+function logCloseEvent(logger: Logger, event: ITransportCloseEvent) {
   const details = [`code: ${event.code}`];
   if (event.reason) {
     details.push(`reason: ${event.reason}`);
   }
   return (ctx: Readonly<Context>) => {
-    console.warn(
-      `Connection to server closed (${details.join(", ")}). Retrying in ${ctx.backoffDelay}ms.`
+    logger.warn(
+      `Connection to server closed (${details.join(", ")}). Retrying in ${ctx.retryDelay}ms.`,
+      { code: event.code }
     );
   };
 }
 
-const logPermanentClose = log(
-  LogLevel.WARN,
-  "Connection closed permanently. Won't retry."
-);
+function logPermanentClose(logger: Logger, event: ITransportCloseEvent) {
+  return log(
+    logger,
+    LogLevel.WARN,
+    "Connection closed permanently. Won't retry.",
+    { code: event.code }
+  );
+}
 
 function isCloseEvent(
   error: ITransportEvent | Error
@@ -277,31 +653,74 @@ function isCloseEvent(
   return !(error instanceof Error) && error.type === TransportEventType.CLOSE;
 }
 
+export type ManagedSocketOptions = {
+  /**
+   * Traces all state transitions of the connection, at the debug level.
+   */
+  enableDebugLogging?: boolean;
+
+  logger?: Logger;
+
+  /**
+   * Minimum amount of time (in milliseconds) between two outgoing frames.
+   * Messages sent in the mean time are batched into the next frame.
+   */
+  throttle?: number;
+
+  /**
+   * How long (in milliseconds) the browser tab may stay hidden before the
+   * connection gets suspended. If not set, the connection is kept alive
+   * indefinitely.
+   */
+  backgroundKeepAliveTimeout?: number;
+
+  retry?: RetryStrategy;
+
+  /**
+   * How often (in milliseconds) to check that the connection is still alive,
+   * while connected.
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * How long (in milliseconds) to wait for the server to answer a heartbeat,
+   * before considering the connection lost.
+   */
+  pongTimeout?: number;
+
+  queue?: QueueOptions;
+};
+
 export type Delegates = {
   authenticate: () => Promise<string>;
-  createTransport: () => ITransportInstance;
+  createTransport: (authValue: string) => ITransportInstance;
   canZombie: () => boolean;
+  // The message to send as a heartbeat. The server should answer it, after
+  // which the owner should call .pong()
+  createPingMessage: () => unknown;
 };
 
 // istanbul ignore next
-function enableTracing(machine: FSM<Context, Event, State>) {
+function enableTracing(machine: FSM<Context, Event, State>, logger: Logger) {
   const start = new Date().getTime();
 
-  function log(...args: unknown[]) {
-    console.warn(
+  function log(message: string, fields?: LogFields) {
+    logger.debug(
       `${((new Date().getTime() - start) / 1000).toFixed(2)} [FSM #${
         machine.id
-      }]`,
-      ...args
+      }] ${message}`,
+      fields
     );
   }
   const unsubs = [
     machine.events.didReceiveEvent.subscribe((e) => log(`Event ${e.type}`)),
     machine.events.willTransition.subscribe(({ from, to }) =>
-      log("Transitioning", from, "→", to)
+      log(`Transitioning ${from} → ${to}`, { from, to })
     ),
     machine.events.didIgnoreEvent.subscribe((e) =>
-      log("Ignored event", e.type, e, "(current state won't handle it)")
+      log(`Ignored event ${e.type} (current state won't handle it)`, {
+        event: e,
+      })
     ),
     // machine.events.willExitState.subscribe((s) => log("Exiting state", s)),
     // machine.events.didEnterState.subscribe((s) => log("Entering state", s)),
@@ -350,8 +769,77 @@ function createConnectionStateMachine(
   delegates: Delegates,
   options: {
     enableDebugLogging: boolean;
+    backgroundKeepAliveTimeout: number | undefined;
+    logger: Logger;
+    retry: Required<RetryStrategy>;
+    heartbeatInterval: number;
+    pongTimeout: number;
   }
 ) {
+  // Tag every log message with the state of the connection
+  const logger = withFields(options.logger, () => ({
+    state: currentStateOf(machine),
+  }));
+
+  const { retry } = options;
+
+  // Resetting the delay happens upon success. We could reset to 0, but that
+  // would risk no delay, which generally isn't wise. Instead, we'll reset it
+  // to the lowest safe delay minus 1 millisecond. The reason is that every
+  // time a retry happens, the retry delay will first be bumped to the next
+  // "tier".
+  const RESET_DELAY = retry.delays[0] - 1;
+
+  function bumpBackoffDelay(delays: readonly number[]) {
+    return (context: Patchable<Context>) => {
+      const backoffDelay = nextBackoffDelay(context.backoffDelay, delays);
+      context.patch({
+        backoffDelay,
+        retryDelay: applyJitter(
+          retry.jitter,
+          backoffDelay,
+          context.retryDelay,
+          delays
+        ),
+      });
+    };
+  }
+
+  // Only attempts to connect that actually failed count towards
+  // maxAttempts, not deliberate reconnects or losing an open connection
+  function countFailedAttempt(context: Patchable<Context>) {
+    context.patch({ retryAttempts: context.retryAttempts + 1 });
+  }
+
+  const increaseBackoffDelay = bumpBackoffDelay(retry.delays);
+  const increaseBackoffDelayAggressively = bumpBackoffDelay(retry.slowDelays);
+
+  function hasRetriesLeft(ctx: Readonly<Context>): boolean {
+    return ctx.retryAttempts < retry.maxAttempts;
+  }
+
+  // Once out of retries, give up right away rather than after the delay
+  function retryDelayOf(ctx: Readonly<Context>): number {
+    return hasRetriesLeft(ctx) ? ctx.retryDelay : 0;
+  }
+
+  function retryOrGiveUp(target: State): Target<Context, TimerEvent, State> {
+    return (_, ctx) => {
+      if (hasRetriesLeft(ctx)) {
+        return target;
+      }
+
+      const errmsg = `Giving up after ${ctx.retryAttempts} failed attempts to connect`;
+      return {
+        target: "@idle.failed",
+        effect: [
+          log(logger, LogLevel.ERROR, errmsg),
+          fireErrorEvent(errmsg, ErrorCode.RETRIES_EXHAUSTED),
+        ],
+      };
+    };
+  }
+
   // Create observable event sources, which this machine will call into when
   // specific events happen
   const onMessage = makeEventSource<Uint8Array>();
@@ -361,6 +849,63 @@ function createConnectionStateMachine(
   // a specific Pilarjs reason
   const onPilarjsError = makeEventSource<PilarjsError>();
 
+  // Emitted whenever the machine backs off, before retrying
+  const onRetryAttempt = makeEventSource<RetryAttemptEvent>();
+
+  // Emitted with the round-trip time of every heartbeat
+  const onLatency = makeEventSource<number>();
+  let latency: number | null = null;
+
+  // Traffic counters, see ConnectionStats
+  const traffic = {
+    framesSent: 0,
+    bytesSent: 0,
+    framesReceived: 0,
+    bytesReceived: 0,
+    reconnectAttempts: 0,
+  };
+
+  function countSent(data: Uint8Array) {
+    traffic.framesSent++;
+    traffic.bytesSent += data.byteLength;
+  }
+
+  // Time spent in each state group, not including the current one
+  const timeInState: Record<StateGroup, number> = {
+    idle: 0,
+    auth: 0,
+    connecting: 0,
+    ok: 0,
+  };
+  let currentGroup: StateGroup = "idle";
+  let currentGroupSince = Date.now();
+
+  function trackStateGroup(state: State) {
+    const group = state.slice(1, state.indexOf(".")) as StateGroup;
+    if (group !== currentGroup) {
+      const now = Date.now();
+      timeInState[currentGroup] += now - currentGroupSince;
+      currentGroup = group;
+      currentGroupSince = now;
+    }
+
+    // Every backoff is followed by another attempt
+    if (state === "@auth.backoff" || state === "@connecting.backoff") {
+      traffic.reconnectAttempts++;
+    }
+  }
+
+  function getStats() {
+    return {
+      ...traffic,
+      timeInState: {
+        ...timeInState,
+        [currentGroup]:
+          timeInState[currentGroup] + (Date.now() - currentGroupSince),
+      },
+    };
+  }
+
   function fireErrorEvent(errmsg: string, errcode: number) {
     return () => {
       const err = new PilarjsError(errmsg, errcode);
@@ -368,11 +913,89 @@ function createConnectionStateMachine(
     };
   }
 
+  function fireAuthErrorEvent(errmsg: string) {
+    return () => {
+      onPilarjsError.notify(new AuthenticationError(errmsg));
+    };
+  }
+
+  /**
+   * Decides how to proceed after the server closed the connection, based on
+   * the retry policy for the close code. Closes for a known reason are
+   * reported as errors, even if we'll retry. Pass `failedAttempt` when the
+   * server refused the connection attempt, rather than closing an open
+   * connection.
+   */
+  function handleServerClose(
+    event: ITransportCloseEvent,
+    failedAttempt: boolean
+  ): TargetObject<Context, Event | BuiltinEvent, State> {
+    const countAttempt = failedAttempt ? [countFailedAttempt] : [];
+    const reportError = isErrorCode(event.code)
+      ? [
+          fireErrorEvent(
+            event.reason ||
+              `Connection closed by server (${ErrorCode[event.code]})`,
+            event.code
+          ),
+        ]
+      : [];
+
+    const policy = getRetryPolicy(event.code);
+    switch (policy) {
+      case "fail":
+        return {
+          target: "@idle.failed",
+          effect: [logPermanentClose(logger, event), ...reportError],
+        };
+
+      case "reauthenticate":
+        return {
+          target: "@auth.backoff",
+          effect: [
+            increaseBackoffDelay,
+            ...countAttempt,
+            assign({ authValue: null }),
+            logCloseEvent(logger, event),
+            ...reportError,
+          ],
+        };
+
+      case "backoff-slow":
+        return {
+          target: "@connecting.backoff",
+          effect: [
+            increaseBackoffDelayAggressively,
+            ...countAttempt,
+            logCloseEvent(logger, event),
+            ...reportError,
+          ],
+        };
+
+      case "backoff":
+        return {
+          target: "@connecting.backoff",
+          effect: [
+            increaseBackoffDelay,
+            ...countAttempt,
+            logCloseEvent(logger, event),
+            ...reportError,
+          ],
+        };
+
+      // istanbul ignore next
+      default:
+        return assertNever(policy, "Unknown retry policy");
+    }
+  }
+
   const initialContext: Context & { authValue: string | null } = {
     successCount: 0,
     authValue: null,
     transport: null,
     backoffDelay: RESET_DELAY,
+    retryDelay: RESET_DELAY,
+    retryAttempts: 0,
   };
 
   // The `machine` is the actual finite state machine instance that will
@@ -401,13 +1024,22 @@ function createConnectionStateMachine(
     },
 
     DISCONNECT: "@idle.initial",
+
+    // Forget the last known authValue, without leaving the current state
+    PURGE_AUTH: () => ({
+      target: machine.currentState,
+      effect: assign({ authValue: null }),
+    }),
   });
 
   //
   // Configure the @idle.* states
   //
   machine
-    .onEnter("@idle.*", resetSuccessCount)
+    .onEnter("@idle.*", (ctx) => {
+      resetSuccessCount(ctx);
+      ctx.patch({ retryAttempts: 0 });
+    })
 
     .addTransitions("@idle.*", {
       CONNECT: (_, ctx) =>
@@ -423,13 +1055,13 @@ function createConnectionStateMachine(
     .addTransitions("@auth.backoff", {
       NAVIGATOR_ONLINE: {
         target: "@auth.busy",
-        effect: assign({ backoffDelay: RESET_DELAY }),
+        effect: assign({ backoffDelay: RESET_DELAY, retryDelay: RESET_DELAY }),
       },
     })
     .addTimedTransition(
       "@auth.backoff",
-      (ctx) => ctx.backoffDelay,
-      "@auth.busy"
+      retryDelayOf,
+      retryOrGiveUp("@auth.busy")
     )
 
     .onEnterAsync(
@@ -438,7 +1070,7 @@ function createConnectionStateMachine(
       () =>
         withTimeout(
           delegates.authenticate(),
-          AUTH_TIMEOUT,
+          retry.authTimeout,
           "Timed out during auth"
         ),
 
@@ -456,8 +1088,8 @@ function createConnectionStateMachine(
           return {
             target: "@idle.failed",
             effect: [
-              log(LogLevel.ERROR, failedEvent.reason.message),
-              fireErrorEvent(failedEvent.reason.message, -1),
+              log(logger, LogLevel.ERROR, failedEvent.reason.message),
+              fireAuthErrorEvent(failedEvent.reason.message),
             ],
           };
         }
@@ -466,7 +1098,9 @@ function createConnectionStateMachine(
           target: "@auth.backoff",
           effect: [
             increaseBackoffDelay,
+            countFailedAttempt,
             log(
+              logger,
               LogLevel.ERROR,
               `Authentication failed: ${
                 failedEvent.reason instanceof Error
@@ -490,11 +1124,11 @@ function createConnectionStateMachine(
   const onSocketClose = (event: ITransportCloseEvent) =>
     machine.send({ type: "EXPLICIT_SOCKET_CLOSE", event });
 
-  const onSocketMessage = (event: ITransportMessageEvent) =>
-    // event.data === "pong"
-    //   ? machine.send({ type: "PONG" })
-    //   :
+  const onSocketMessage = (event: ITransportMessageEvent) => {
+    traffic.framesReceived++;
+    traffic.bytesReceived += event.data.byteLength;
     onMessage.notify(event.data);
+  };
 
   function teardownTransport(transport: ITransportInstance | null) {
     transport?.close();
@@ -504,13 +1138,13 @@ function createConnectionStateMachine(
     .addTransitions("@connecting.backoff", {
       NAVIGATOR_ONLINE: {
         target: "@connecting.busy",
-        effect: assign({ backoffDelay: RESET_DELAY }),
+        effect: assign({ backoffDelay: RESET_DELAY, retryDelay: RESET_DELAY }),
       },
     })
     .addTimedTransition(
       "@connecting.backoff",
-      (ctx) => ctx.backoffDelay,
-      "@connecting.busy"
+      retryDelayOf,
+      retryOrGiveUp("@connecting.busy")
     )
 
     .onEnterAsync(
@@ -531,7 +1165,7 @@ function createConnectionStateMachine(
 
         const connect$ = new Promise<[ITransportInstance, () => void]>(
           (resolve, rej) => {
-            const socket = delegates.createTransport();
+            const socket = delegates.createTransport(nn(ctx.authValue));
             unconfirmedSocket = socket;
 
             function reject(event: ITransportEvent) {
@@ -593,7 +1227,7 @@ function createConnectionStateMachine(
 
         return withTimeout(
           connect$,
-          TRANSPORT_CONNECT_TIMEOUT,
+          retry.connectTimeout,
           "Timed out during websocket connection"
         )
           .then(
@@ -639,6 +1273,8 @@ function createConnectionStateMachine(
         effect: assign({
           transport: okEvent.data,
           backoffDelay: RESET_DELAY,
+          retryDelay: RESET_DELAY,
+          retryAttempts: 0,
         }),
       }),
 
@@ -653,28 +1289,26 @@ function createConnectionStateMachine(
           return {
             target: "@idle.failed",
             effect: [
-              log(LogLevel.ERROR, err.message),
+              log(logger, LogLevel.ERROR, err.message),
               fireErrorEvent(err.message, -1),
             ],
           };
         }
 
-        // If the server actively refuses the connection attempt, stop trying.
+        // If the server actively refuses the connection attempt, the close
+        // code tells us whether to try again
         if (isCloseEvent(err)) {
-          const e = err as ITransportCloseEvent;
-          return {
-            target: "@idle.failed",
-            effect: [
-              log(LogLevel.ERROR, e.reason),
-              fireErrorEvent(e.reason, e.code),
-            ],
-          };
+          return handleServerClose(err as ITransportCloseEvent, true);
         }
 
         // In all other (unknown) cases, always re-authenticate (but after a back-off)
         return {
           target: "@auth.backoff",
-          effect: [increaseBackoffDelay, logPrematureErrorOrCloseEvent(err)],
+          effect: [
+            increaseBackoffDelay,
+            countFailedAttempt,
+            logPrematureErrorOrCloseEvent(logger, err),
+          ],
         };
       }
     );
@@ -683,36 +1317,65 @@ function createConnectionStateMachine(
   // Configure the @ok.* states
   //
   // Keeps a heartbeat alive with the server whenever in the @ok.* state group.
-  // 30 seconds after entering the "@ok.connected" state, it will emit
-  // a heartbeat, and awaits a PONG back that should arrive within 2 seconds.
+  // Some time after entering the "@ok.connected" state, it will emit
+  // a heartbeat, and awaits a PONG back that should arrive in time.
   // If this happens, then it transitions back to normal "connected" state, and
   // the cycle repeats. If the PONG is not received timely, then we interpret
   // it as an implicit connection loss, and transition to reconnect (throw away
   // this socket, and open a new one).
   //
 
+  // When the last PING was sent, to measure the round-trip time
+  let lastPingSentAt = 0;
+
   const sendHeartbeat: Target<Context, Event | BuiltinEvent, State> = {
     target: "@ok.awaiting-pong",
     effect: (ctx) => {
-      ctx.transport?.send("ping");
+      if (ctx.transport?.readyState === TransportReadyState.OPEN) {
+        lastPingSentAt = Date.now();
+        const data = msgpack.encode([delegates.createPingMessage()]);
+        ctx.transport.send(data);
+        countSent(data);
+      }
     },
   };
 
-  const maybeHeartbeat: Target<Context, Event | BuiltinEvent, State> = () => {
-    // If the browser tab isn't visible currently, ask the application if going
-    // zombie is fine
-    const doc = typeof document !== "undefined" ? document : undefined;
-    const canZombie =
-      doc?.visibilityState === "hidden" && delegates.canZombie();
-    return canZombie ? "@idle.zombie" : sendHeartbeat;
-  };
+  // When the browser tab got hidden, or null while it's visible
+  let hiddenSince: number | null = null;
+
+  // If the browser tab has been hidden for longer than the
+  // backgroundKeepAliveTimeout, ask the application if going zombie is fine
+  function canZombie(): boolean {
+    return (
+      hiddenSince !== null &&
+      options.backgroundKeepAliveTimeout !== undefined &&
+      Date.now() - hiddenSince >= options.backgroundKeepAliveTimeout &&
+      delegates.canZombie()
+    );
+  }
+
+  const maybeHeartbeat: Target<Context, Event | BuiltinEvent, State> = () =>
+    canZombie() ? "@idle.zombie" : sendHeartbeat;
+
+  const maybeZombie: Target<Context, Event | BuiltinEvent, State> = () =>
+    canZombie() ? "@idle.zombie" : null;
+
+  machine
+    .addTimedTransition(
+      "@ok.connected",
+      options.heartbeatInterval,
+      maybeHeartbeat
+    )
+    .addTransitions("@ok.connected", {
+      NAVIGATOR_OFFLINE: maybeHeartbeat, // Don't take the browser's word for it when it says it's offline. Do a ping/pong to make sure.
+      WINDOW_GOT_FOCUS: sendHeartbeat,
+    });
 
-  // machine
-  //   .addTimedTransition("@ok.connected", HEARTBEAT_INTERVAL, maybeHeartbeat)
-  //   .addTransitions("@ok.connected", {
-  //     NAVIGATOR_OFFLINE: maybeHeartbeat, // Don't take the browser's word for it when it says it's offline. Do a ping/pong to make sure.
-  //     WINDOW_GOT_FOCUS: sendHeartbeat,
-  //   });
+  machine.addTransitions("@ok.*", {
+    // Drop the connection when the browser tab has been in the background for
+    // too long
+    WINDOW_HIDDEN_TIMEOUT: maybeZombie,
+  });
 
   machine.addTransitions("@idle.zombie", {
     WINDOW_GOT_FOCUS: "@connecting.backoff", // When in zombie state, the client will try to wake up automatically when the window regains focus
@@ -740,15 +1403,24 @@ function createConnectionStateMachine(
       };
     })
 
-    // .addTransitions("@ok.awaiting-pong", { PONG: "@ok.connected" })
-    // .addTimedTransition("@ok.awaiting-pong", PONG_TIMEOUT, {
-    //   target: "@connecting.busy",
-    //   // Log implicit connection loss and drop the current open socket
-    //   effect: log(
-    //     LogLevel.WARN,
-    //     "Received no pong from server, assume implicit connection loss."
-    //   ),
-    // })
+    .addTransitions("@ok.awaiting-pong", {
+      PONG: {
+        target: "@ok.connected",
+        effect: () => {
+          latency = Date.now() - lastPingSentAt;
+          onLatency.notify(latency);
+        },
+      },
+    })
+    .addTimedTransition("@ok.awaiting-pong", options.pongTimeout, {
+      target: "@connecting.busy",
+      // Log implicit connection loss and drop the current open socket
+      effect: log(
+        logger,
+        LogLevel.WARN,
+        "Received no pong from server, assume implicit connection loss."
+      ),
+    })
 
     .addTransitions("@ok.*", {
       // When a socket receives an error, this can cause the closing of the
@@ -766,12 +1438,18 @@ function createConnectionStateMachine(
         };
       },
 
-      EXPLICIT_SOCKET_CLOSE: (e) => {
-        return {
-          target: "@connecting.backoff",
-          effect: [increaseBackoffDelay, logCloseEvent(e.event)],
-        };
-      },
+      EXPLICIT_SOCKET_CLOSE: (e) => handleServerClose(e.event, false),
+
+      // The connection is open, but unusable, and retrying won't help
+      FATAL_ERROR: (e) => ({
+        target: "@idle.failed",
+        effect: [
+          log(logger, LogLevel.ERROR, e.error.message, {
+            code: e.error.code,
+          }),
+          () => onPilarjsError.notify(e.error),
+        ],
+      }),
     });
 
   // Lastly, register an event handler to listen for window-focus events as
@@ -783,6 +1461,8 @@ function createConnectionStateMachine(
     const root = win ?? doc;
 
     machine.onEnter("*", (ctx) => {
+      let hiddenTimerID: ReturnType<typeof setTimeout> | undefined;
+
       function onNetworkOffline() {
         machine.send({ type: "NAVIGATOR_OFFLINE" });
       }
@@ -792,15 +1472,27 @@ function createConnectionStateMachine(
       }
 
       function onVisibilityChange() {
+        clearTimeout(hiddenTimerID);
         if (doc?.visibilityState === "visible") {
+          hiddenSince = null;
           machine.send({ type: "WINDOW_GOT_FOCUS" });
+          return;
+        }
+
+        hiddenSince ??= Date.now();
+        if (options.backgroundKeepAliveTimeout !== undefined) {
+          hiddenTimerID = setTimeout(() => {
+            machine.send({ type: "WINDOW_HIDDEN_TIMEOUT" });
+          }, options.backgroundKeepAliveTimeout);
         }
       }
 
+      hiddenSince = doc?.visibilityState === "hidden" ? Date.now() : null;
       win?.addEventListener("online", onNetworkBackOnline);
       win?.addEventListener("offline", onNetworkOffline);
       root?.addEventListener("visibilitychange", onVisibilityChange);
       return () => {
+        clearTimeout(hiddenTimerID);
         root?.removeEventListener("visibilitychange", onVisibilityChange);
         win?.removeEventListener("online", onNetworkBackOnline);
         win?.removeEventListener("offline", onNetworkOffline);
@@ -817,10 +1509,29 @@ function createConnectionStateMachine(
     defineConnectivityEvents(machine);
   cleanups.push(unsubscribe);
 
+  cleanups.push(
+    machine.events.didEnterState.subscribe((state) => {
+      trackStateGroup(state);
+
+      const ctx = machine.context;
+      if (
+        (state === "@auth.backoff" || state === "@connecting.backoff") &&
+        ctx.retryAttempts > 0 &&
+        hasRetriesLeft(ctx)
+      ) {
+        onRetryAttempt.notify({
+          attempt: ctx.retryAttempts,
+          delay: ctx.retryDelay,
+          stage: state === "@auth.backoff" ? "auth" : "connecting",
+        });
+      }
+    })
+  );
+
   // Install debug logging
   // istanbul ignore next
   if (options.enableDebugLogging) {
-    cleanups.push(enableTracing(machine));
+    cleanups.push(enableTracing(machine, logger));
   }
 
   // Start the machine
@@ -829,6 +1540,9 @@ function createConnectionStateMachine(
   return {
     machine,
     cleanups,
+    getLatency: () => latency,
+    getStats,
+    countSent,
 
     // Observable events that will be emitted by this machine
     events: {
@@ -836,6 +1550,8 @@ function createConnectionStateMachine(
       didConnect,
       didDisconnect,
       onMessage: onMessage.observable,
+      onRetryAttempt: onRetryAttempt.observable,
+      onLatency: onLatency.observable,
       onPilarjsError: onPilarjsError.observable,
     },
   };
@@ -853,10 +1569,32 @@ export class ManagedSocket {
   /** @internal */
   private machine: FSM<Context, Event, State>;
   private cleanups: (() => void)[];
+  private logger: Logger;
+
+  /**
+   * Returns the round-trip time (in milliseconds) of the last heartbeat, or
+   * null if none has been answered yet.
+   */
+  public readonly getLatency: () => number | null;
+  private getMachineStats: () => Omit<
+    ConnectionStats,
+    "queueDepth" | "droppedMessages" | "coalescedMessages"
+  >;
+  private countSent: (data: Uint8Array) => void;
+  private droppedMessages = 0;
+  private coalescedMessages = 0;
+  private throttle: number;
+  private queue: Required<QueueOptions>;
   private buffer: {
     lastFlushedAt: number;
-    messages: any[];
-  }
+    messages: QueuedMessage[];
+    flushTimerID: ReturnType<typeof setTimeout> | undefined;
+    // Set on every new connection, until released by an explicit .flush(),
+    // so nothing gets sent before the connection is ready for it
+    held: boolean;
+  };
+  // Whether the server accepts frames holding more than one message
+  private batching = true;
 
   public readonly events: {
     /**
@@ -886,20 +1624,92 @@ export class ManagedSocket {
      * max number of connections, max number of messages, etc.
      */
     readonly onPilarjsError: Observable<PilarjsError>;
+
+    /**
+     * Emitted whenever a connection attempt failed, and another one will be
+     * made after a delay.
+     */
+    readonly onRetryAttempt: Observable<RetryAttemptEvent>;
+
+    /**
+     * Emitted with the round-trip time (in milliseconds) of every heartbeat.
+     */
+    readonly onLatency: Observable<number>;
+
+    /**
+     * Emitted with the messages that just got sent to the server.
+     */
+    readonly didSendMessages: Observable<readonly any[]>;
   };
 
-  constructor(delegates: Delegates, enableDebugLogging: boolean = false) {
-    const { machine, events, cleanups } = createConnectionStateMachine(
-      delegates,
-      { enableDebugLogging }
-    );
+  private readonly sentMessages = makeEventSource<readonly any[]>();
+
+  constructor(delegates: Delegates, options: ManagedSocketOptions = {}) {
+    const logger = options.logger ?? createConsoleLogger();
+    const { machine, events, cleanups, getLatency, getStats, countSent } =
+      createConnectionStateMachine(delegates, {
+        enableDebugLogging: options.enableDebugLogging ?? false,
+        heartbeatInterval:
+          options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL,
+        pongTimeout: options.pongTimeout ?? DEFAULT_PONG_TIMEOUT,
+        retry: {
+          delays: options.retry?.delays ?? DEFAULT_BACKOFF_DELAYS,
+          slowDelays: options.retry?.slowDelays ?? DEFAULT_BACKOFF_DELAYS_SLOW,
+          jitter: options.retry?.jitter ?? "none",
+          maxAttempts: options.retry?.maxAttempts ?? Infinity,
+          authTimeout: options.retry?.authTimeout ?? DEFAULT_AUTH_TIMEOUT,
+          connectTimeout:
+            options.retry?.connectTimeout ?? DEFAULT_TRANSPORT_CONNECT_TIMEOUT,
+        },
+        backgroundKeepAliveTimeout: options.backgroundKeepAliveTimeout,
+        logger,
+      });
     this.machine = machine;
-    this.events = events;
+    this.logger = withFields(logger, () => ({
+      state: currentStateOf(machine),
+    }));
+    this.events = {
+      ...events,
+      didSendMessages: this.sentMessages.observable,
+    };
+    this.getLatency = getLatency;
+    this.getMachineStats = getStats;
+    this.countSent = countSent;
     this.cleanups = cleanups;
+    this.throttle = options.throttle ?? DEFAULT_THROTTLE;
+    this.queue = {
+      maxSize: options.queue?.maxSize ?? Infinity,
+      overflow: options.queue?.overflow ?? "drop-oldest",
+    };
 
     this.buffer = {
       lastFlushedAt: 0,
       messages: [],
+      flushTimerID: undefined,
+      held: true,
+    };
+
+    this.cleanups.push(
+      events.didDisconnect.subscribe(() => {
+        // A flush that was scheduled for the old connection must not go out
+        // on the next one, before the handshake
+        this.buffer.held = true;
+        clearTimeout(this.buffer.flushTimerID);
+        this.buffer.flushTimerID = undefined;
+      })
+    );
+  }
+
+  /**
+   * Returns the counters about this connection, since it was created.
+   */
+  public getStats(): ConnectionStats {
+    this.discardExpired();
+    return {
+      ...this.getMachineStats(),
+      queueDepth: this.buffer.messages.length,
+      droppedMessages: this.droppedMessages,
+      coalescedMessages: this.coalescedMessages,
     };
   }
 
@@ -918,6 +1728,14 @@ export class ManagedSocket {
     return this.machine.context.authValue;
   }
 
+  /**
+   * Forgets the last known auth authValue. The next connection attempt will
+   * have to obtain a new authValue first.
+   */
+  public purgeAuth(): void {
+    this.machine.send({ type: "PURGE_AUTH" });
+  }
+
   /**
    * Call this method to try to connect to a WebSocket. This only has an effect
    * if the machine is idle at the moment, otherwise this is a no-op.
@@ -942,6 +1760,21 @@ export class ManagedSocket {
     this.machine.send({ type: "DISCONNECT" });
   }
 
+  /**
+   * Call this when the server answered the heartbeat.
+   */
+  public pong(): void {
+    this.machine.send({ type: "PONG" });
+  }
+
+  /**
+   * Closes the current connection, and stops trying to connect. The given
+   * error will be emitted as the reason. Only has an effect while connected.
+   */
+  public fail(error: PilarjsError): void {
+    this.machine.send({ type: "FATAL_ERROR", error });
+  }
+
   /**
    * Call this to stop the machine and run necessary cleanup functions. After
    * calling destroy(), you can no longer use this instance. Call this before
@@ -949,6 +1782,8 @@ export class ManagedSocket {
    */
   public destroy(): void {
     this.machine.stop();
+    clearTimeout(this.buffer.flushTimerID);
+    this.sentMessages.clear();
 
     let cleanup: (() => void) | undefined;
     while ((cleanup = this.cleanups.pop())) {
@@ -956,21 +1791,236 @@ export class ManagedSocket {
     }
   }
 
-  public sendMessages(messages: any[]): void {
+  /**
+   * Queues the messages, to be sent with the next flush. Throws
+   * a `QueueFullError` if messages that aren't essential don't fit in the
+   * queue, and its overflow policy is "reject".
+   */
+  public sendMessages(messages: unknown[], options: SendOptions = {}): void {
+    const lane = options.lane ?? "reliable";
+    const essential = lane === "control" || (options.essential ?? false);
+    const expiresAt =
+      options.ttl !== undefined ? Date.now() + options.ttl : Infinity;
+    const coalesceKey = options.coalesceKey;
+
+    if (this.buffer.messages.length + messages.length > this.queue.maxSize) {
+      // Expired messages shouldn't take up any room
+      this.discardExpired();
+    }
+
+    if (!essential && this.queue.overflow === "reject") {
+      // Replacing a queued message takes no extra room
+      const needed =
+        coalesceKey === undefined
+          ? messages.length
+          : this.findCoalescable(coalesceKey) === -1
+            ? 1
+            : 0;
+      if (needed > this.queue.maxSize - this.buffer.messages.length) {
+        throw new QueueFullError(this.queue.maxSize);
+      }
+    }
+
     for (const message of messages) {
-      this.buffer.messages.push(message);
+      const queued = { message, expiresAt, lane, essential, coalesceKey };
+
+      if (coalesceKey !== undefined) {
+        const index = this.findCoalescable(coalesceKey);
+        if (index !== -1) {
+          // Keeps the position of the older message in the queue
+          this.buffer.messages[index] = queued;
+          this.coalescedMessages++;
+          continue;
+        }
+      }
+
+      if (
+        this.buffer.messages.length >= this.queue.maxSize &&
+        !this.makeRoom(essential)
+      ) {
+        continue;
+      }
+      this.buffer.messages.push(queued);
+    }
+
+    this.tryFlush();
+  }
+
+  private findCoalescable(coalesceKey: string): number {
+    return this.buffer.messages.findIndex(
+      (queued) => queued.coalesceKey === coalesceKey
+    );
+  }
+
+  /**
+   * Applies the overflow policy to a full queue. Returns whether the new
+   * message may be queued. Essential messages always are, even when there is
+   * nothing left to drop.
+   */
+  private makeRoom(essential: boolean): boolean {
+    const oldest =
+      !essential && this.queue.overflow === "drop-newest"
+        ? -1
+        : this.findOldestDroppable();
+
+    if (oldest !== -1) {
+      this.logger.debug("Outgoing queue is full, dropping oldest message");
+      this.buffer.messages.splice(oldest, 1);
+      this.droppedMessages++;
+      return true;
+    }
+
+    if (essential) {
+      return true;
+    }
+
+    this.logger.debug("Outgoing queue is full, dropping newest message");
+    this.droppedMessages++;
+    return false;
+  }
+
+  /**
+   * Returns the index of the oldest message that may be dropped, preferring
+   * unreliable messages, or -1 if there is none.
+   */
+  private findOldestDroppable(): number {
+    const unreliable = this.buffer.messages.findIndex(
+      (queued) => queued.lane === "unreliable" && !queued.essential
+    );
+    return unreliable !== -1
+      ? unreliable
+      : this.buffer.messages.findIndex((queued) => !queued.essential);
+  }
+
+  /**
+   * Drops all queued messages that are no longer worth sending.
+   */
+  private discardExpired(): void {
+    const now = Date.now();
+    const count = this.buffer.messages.length;
+    this.buffer.messages = this.buffer.messages.filter(
+      (queued) => queued.expiresAt > now
+    );
+    this.droppedMessages += count - this.buffer.messages.length;
+  }
+
+  /**
+   * Removes all buffered messages matching the predicate, so they will never
+   * get sent. Returns the removed messages.
+   */
+  public discardMessages(predicate: (message: unknown) => boolean): unknown[] {
+    const discarded = this.buffer.messages
+      .filter((queued) => predicate(queued.message))
+      .map((queued) => queued.message);
+    this.buffer.messages = this.buffer.messages.filter(
+      (queued) => !predicate(queued.message)
+    );
+    this.droppedMessages += discarded.length;
+    return discarded;
+  }
+
+  /**
+   * Flushes the buffered messages, unless the last flush happened less than
+   * `throttle` milliseconds ago. In that case, only control messages are
+   * sent, and a flush is scheduled for when the throttle window has passed.
+   */
+  private tryFlush(): void {
+    if (this.getStatus() !== "connected" || this.buffer.held) {
+      // Will get flushed as soon as we're connected (and ready) again
+      return;
+    }
+
+    const elapsed = Date.now() - this.buffer.lastFlushedAt;
+    if (elapsed >= this.throttle) {
+      this.sendBuffered();
+      return;
     }
 
-    if (this.getStatus() === "connected") {
-      this.flush();
+    this.sendBuffered(["control"]);
+    if (
+      this.buffer.messages.length > 0 &&
+      this.buffer.flushTimerID === undefined
+    ) {
+      this.buffer.flushTimerID = setTimeout(
+        () => this.sendBuffered(),
+        this.throttle - elapsed
+      );
     }
   }
 
+  /**
+   * Releases the buffer after a new connection, and sends all buffered
+   * messages to the server right away.
+   */
   public flush(): void {
-    const messages = this.buffer.messages.splice(0, this.buffer.messages.length);
-    for (const message of messages) {
-      this.send(msgpack.encode(message));
+    this.buffer.held = false;
+    this.sendBuffered();
+  }
+
+  /**
+   * Sends the buffered messages of the given lanes to the server, as frames
+   * holding an array of messages, in order of priority. Without batching,
+   * every message gets a frame of its own. Messages that expired while
+   * waiting are dropped.
+   */
+  private sendBuffered(lanes: readonly Lane[] = LANES): void {
+    const isFullFlush = lanes.length === LANES.length;
+    if (isFullFlush) {
+      clearTimeout(this.buffer.flushTimerID);
+      this.buffer.flushTimerID = undefined;
     }
+
+    if (this.getStatus() !== "connected" || this.buffer.held) {
+      return;
+    }
+
+    this.discardExpired();
+    const messages: unknown[] = [];
+    for (const lane of lanes) {
+      for (const queued of this.buffer.messages) {
+        if (queued.lane === lane) {
+          messages.push(queued.message);
+        }
+      }
+    }
+    if (messages.length === 0) {
+      return;
+    }
+
+    this.buffer.messages = this.buffer.messages.filter(
+      (queued) => !lanes.includes(queued.lane)
+    );
+    if (this.batching) {
+      for (const frame of encodeFrames(messages)) {
+        this.send(frame);
+      }
+    } else {
+      for (const message of messages) {
+        this.send(msgpack.encode([message]));
+      }
+    }
+    // Control messages don't count towards the throttle
+    if (isFullFlush) {
+      this.buffer.lastFlushedAt = Date.now();
+    }
+    this.sentMessages.notify(messages);
+  }
+
+  /**
+   * Sends the messages right away, in a frame of their own, bypassing the
+   * buffer. For messages that must go out before anything that's buffered,
+   * like the handshake.
+   */
+  public sendImmediately(messages: unknown[]): void {
+    this.send(msgpack.encode(messages));
+  }
+
+  /**
+   * Whether to send buffered messages in a single frame, as agreed on with
+   * the server.
+   */
+  public setBatching(enabled: boolean): void {
+    this.batching = enabled;
   }
 
   /**
@@ -980,13 +2030,14 @@ export class ManagedSocket {
   public send(data: Uint8Array): void {
     const socket = this.machine.context?.transport;
     if (socket === null) {
-      console.warn("Cannot send: not connected yet", data);
+      this.logger.warn("Cannot send: not connected yet", { data });
     } else if (
       socket.readyState !== TransportReadyState.OPEN /* WebSocket.OPEN */
     ) {
-      console.warn("Cannot send: connection no longer open", data);
+      this.logger.warn("Cannot send: connection no longer open", { data });
     } else {
       socket.send(data);
+      this.countSent(data);
     }
   }
 
@@ -1,2 +1,54 @@
-
-export { createClient } from './client';
+export type { AuthenticateDelegate } from "./auth";
+export {
+  ChannelJoinError,
+  type BroadcastEvent,
+  type BroadcastOptions,
+  type Channel,
+  type DataEvent,
+  type EventMap,
+  type OthersEvent,
+  type Peer,
+  type Presence,
+} from "./channel";
+export {
+  createClient,
+  type ChannelLease,
+  type ChannelStats,
+  type Client,
+  type ClientOptions,
+  type ClientStats,
+  type JoinAsyncOptions,
+  type JoinOptions,
+} from "./client";
+export {
+  AuthenticationError,
+  type ConnectionStats,
+  ErrorCode,
+  type LostConnectionEvent,
+  type OverflowPolicy,
+  PilarjsError,
+  QueueFullError,
+  type QueueOptions,
+  type RetryAttemptEvent,
+  type RetryPolicy,
+  type RetryStrategy,
+  StopRetrying,
+  type Status,
+} from "./connection";
+export {
+  createConsoleLogger,
+  LogLevel,
+  type LogFields,
+  type Logger,
+} from "./logger";
+export {
+  ProtocolError,
+  ProtocolVersionError,
+  type Capability,
+  type ClientMsg,
+  type ErrorServerMsg,
+  type PeerOfflineServerMsg,
+  type PeerOnlineServerMsg,
+  type PeerStateServerMsg,
+  type ServerMsg,
+} from "./protocol";
@@ -213,6 +213,28 @@ export async function withTimeout<T>(
   );
 }
 
+/**
+ * Returns whatever the given promise returns, but will be rejected with the
+ * abort reason as soon as the given signal gets aborted.
+ */
+export async function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (signal === undefined) {
+    return promise;
+  }
+
+  signal.throwIfAborted();
+  let removeListener = () => {};
+  const aborted$ = new Promise<never>((_, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    removeListener = () => signal.removeEventListener("abort", onAbort);
+  });
+  return Promise.race([promise, aborted$]).finally(removeListener);
+}
+
 /**
  * Decode base64 string.
  */
@@ -0,0 +1,94 @@
+import * as console from "./lib/fancy-console";
+
+export enum LogLevel {
+  DEBUG,
+  INFO,
+  WARN,
+  ERROR,
+}
+
+/**
+ * Structured details that go with a log message, so they can be filtered on
+ * or shipped to your own monitoring.
+ */
+export type LogFields = {
+  /** The channel the message is about, if any */
+  channelId?: string;
+  /** The state of the connection at the time */
+  state?: string;
+  /** The error code, if any */
+  code?: number;
+  [key: string]: unknown;
+};
+
+/**
+ * Receives all log messages of the client. Plug in your own to route them
+ * elsewhere, or use `createConsoleLogger()` to log to the console.
+ */
+export type Logger = {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+};
+
+/**
+ * Logs to the console, ignoring all messages below the given level.
+ */
+export function createConsoleLogger(minLevel = LogLevel.WARN): Logger {
+  function atLevel(
+    level: LogLevel,
+    write: (message: string, ...args: readonly unknown[]) => void
+  ) {
+    return level < minLevel
+      ? /* black hole */ () => {}
+      : (message: string, fields?: LogFields) =>
+          fields !== undefined ? write(message, fields) : write(message);
+  }
+
+  return {
+    debug: atLevel(LogLevel.DEBUG, console.log),
+    info: atLevel(LogLevel.INFO, console.log),
+    warn: atLevel(LogLevel.WARN, console.warn),
+    error: atLevel(LogLevel.ERROR, console.error),
+  };
+}
+
+/**
+ * Logs the message at the given level.
+ */
+export function logAtLevel(
+  logger: Logger,
+  level: LogLevel,
+  message: string,
+  fields?: LogFields
+): void {
+  switch (level) {
+    case LogLevel.DEBUG:
+      return logger.debug(message, fields);
+    case LogLevel.INFO:
+      return logger.info(message, fields);
+    case LogLevel.WARN:
+      return logger.warn(message, fields);
+    case LogLevel.ERROR:
+      return logger.error(message, fields);
+  }
+}
+
+/**
+ * Returns a logger that adds the given fields to every message. The fields
+ * are computed at the time of logging.
+ */
+export function withFields(logger: Logger, getFields: () => LogFields): Logger {
+  const wrap =
+    (write: (message: string, fields?: LogFields) => void) =>
+    (message: string, fields?: LogFields) =>
+      write(message, { ...getFields(), ...fields });
+
+  return {
+    debug: wrap((message, fields) => logger.debug(message, fields)),
+    info: wrap((message, fields) => logger.info(message, fields)),
+    warn: wrap((message, fields) => logger.warn(message, fields)),
+    error: wrap((message, fields) => logger.error(message, fields)),
+  };
+}
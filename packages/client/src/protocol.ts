@@ -0,0 +1,485 @@
+import { ErrorCode, PilarjsError } from "./connection";
+import { msgpack } from "./lib/MessagePack";
+import { isPlainObject } from "./lib/utils";
+import type { Logger } from "./logger";
+
+/**
+ * The protocol versions this client can speak, in order of preference.
+ */
+export const PROTOCOL_VERSIONS: readonly number[] = [1];
+
+/**
+ * Optional protocol features. The client advertises the ones it supports, and
+ * the server confirms which of those it will use.
+ *
+ * - compression: payloads may be compressed
+ * - batching: a frame may hold more than one message
+ * - wt_streams: WebTransport streams may be used, rather than datagrams only
+ */
+export type Capability = "compression" | "batching" | "wt_streams";
+
+const SUPPORTED_CAPABILITIES: readonly Capability[] = ["batching"];
+
+/**
+ * The outcome of the handshake.
+ */
+export type NegotiatedProtocol = {
+  readonly version: number;
+  readonly capabilities: readonly Capability[];
+};
+
+/**
+ * Messages the client sends to the server. Outgoing frames hold a batch (an
+ * array) of these, msgpack encoded.
+ */
+export type ClientMsg = HelloClientMsg | PingClientMsg | ChannelClientMsg;
+
+/**
+ * Client messages about a specific channel.
+ */
+export type ChannelClientMsg =
+  | ChannelJoinClientMsg
+  | ChannelLeaveClientMsg
+  | PeerOnlineClientMsg
+  | PeerStateClientMsg
+  | DataClientMsg;
+
+/**
+ * Starts the handshake on every new connection. Lists the protocol versions
+ * and capabilities this client supports.
+ */
+export type HelloClientMsg = {
+  readonly t: "control";
+  readonly op: "hello";
+  readonly v: readonly number[];
+  readonly caps: readonly Capability[];
+};
+
+/**
+ * Heartbeat, to check that the connection is still alive. The server should
+ * answer with a pong right away.
+ */
+export type PingClientMsg = {
+  readonly t: "control";
+  readonly op: "ping";
+};
+
+export type ChannelJoinClientMsg = {
+  readonly t: "control";
+  readonly op: "channel_join";
+  readonly c: string;
+};
+
+export type ChannelLeaveClientMsg = {
+  readonly t: "control";
+  readonly op: "channel_leave";
+  readonly c: string;
+};
+
+/**
+ * Announces us to the peers in the channel, once our join was acknowledged.
+ */
+export type PeerOnlineClientMsg = {
+  readonly t: "control";
+  readonly op: "peer_online";
+  readonly c: string;
+};
+
+/**
+ * Shares our presence with the peers in the channel.
+ */
+export type PeerStateClientMsg = {
+  readonly t: "control";
+  readonly op: "peer_state";
+  readonly c: string;
+  // msgpack encoded presence
+  readonly pl: Uint8Array;
+};
+
+/**
+ * Broadcasts an event to the peers in the channel.
+ */
+export type DataClientMsg = {
+  readonly t: "data";
+  readonly c: string;
+  // msgpack encoded BroadcastPayload
+  readonly pl: Uint8Array;
+};
+
+/**
+ * Messages the server sends to the client. Incoming frames hold either
+ * a single one of these, or a batch (an array) of them, msgpack encoded.
+ */
+export type ServerMsg =
+  | HelloServerMsg
+  | PongServerMsg
+  | ChannelJoinServerMsg
+  | PeerOnlineServerMsg
+  | PeerOfflineServerMsg
+  | PeerStateServerMsg
+  | DataServerMsg
+  | ErrorServerMsg;
+
+/**
+ * The server's reply to our hello, with the protocol version and capabilities
+ * it chose. Without a version, the server supports none of the versions we
+ * offered. The connection id (cid) is the one peers will see for this
+ * connection.
+ */
+export type HelloServerMsg = {
+  readonly t: "control";
+  readonly op: "hello";
+  readonly v?: number;
+  readonly caps?: readonly string[];
+  readonly cid?: string;
+};
+
+export type PongServerMsg = {
+  readonly t: "control";
+  readonly op: "pong";
+};
+
+/**
+ * The server's reply to our join. A non-zero code means the server refused
+ * the join, e.g. because of permissions, or because the channel is full.
+ */
+export type ChannelJoinServerMsg = {
+  readonly t: "control";
+  readonly op: "channel_join";
+  readonly c: string;
+  readonly code?: number;
+  readonly reason?: string;
+};
+
+/**
+ * Sent when a peer joined the channel. The user id (p) is the same for all
+ * connections of a user, the connection id (cid) is unique per connection.
+ * Servers that don't send a connection id will identify peers by user id.
+ */
+export type PeerOnlineServerMsg = {
+  readonly t: "control";
+  readonly op: "peer_online";
+  readonly c: string;
+  readonly p: string;
+  readonly cid?: string;
+};
+
+export type PeerOfflineServerMsg = {
+  readonly t: "control";
+  readonly op: "peer_offline";
+  readonly c: string;
+  readonly p: string;
+  readonly cid?: string;
+};
+
+export type PeerStateServerMsg = {
+  readonly t: "control";
+  readonly op: "peer_state";
+  readonly c: string;
+  readonly p: string;
+  readonly cid?: string;
+  // msgpack encoded presence
+  readonly pl: Uint8Array;
+};
+
+export type DataServerMsg = {
+  readonly t: "data";
+  readonly c: string;
+  readonly p: string;
+  readonly cid?: string;
+  // msgpack encoded BroadcastPayload
+  readonly pl: Uint8Array;
+};
+
+/**
+ * Sent when the server could not handle one of our messages. May be about
+ * a specific channel.
+ */
+export type ErrorServerMsg = {
+  readonly t: "error";
+  readonly code: number;
+  readonly reason?: string;
+  readonly c?: string;
+};
+
+/**
+ * The (decoded) payload of data messages.
+ */
+export type BroadcastPayload = {
+  readonly event: string;
+  readonly data: unknown;
+};
+
+/**
+ * Emitted when the server sends something that doesn't follow the protocol.
+ * The offending message is kept around for debugging.
+ */
+export class ProtocolError extends PilarjsError {
+  /** @internal */
+  constructor(
+    message: string,
+    public readonly data: unknown
+  ) {
+    super(message, -1);
+  }
+}
+
+/**
+ * Emitted when the client and server can't agree on a protocol version. The
+ * client will stop trying to connect, as retrying won't help.
+ */
+export class ProtocolVersionError extends PilarjsError {
+  /** @internal */
+  constructor(public readonly serverVersion: number | null) {
+    super(
+      serverVersion === null
+        ? `Server supports none of the protocol versions of this client (${PROTOCOL_VERSIONS.join(", ")})`
+        : `Server chose protocol version ${serverVersion}, but this client only supports ${PROTOCOL_VERSIONS.join(", ")}`,
+      ErrorCode.PROTOCOL_MISMATCH
+    );
+  }
+}
+
+export function makeHelloMsg(): HelloClientMsg {
+  return {
+    t: "control",
+    op: "hello",
+    v: PROTOCOL_VERSIONS,
+    caps: SUPPORTED_CAPABILITIES,
+  };
+}
+
+export function makePingMsg(): PingClientMsg {
+  return { t: "control", op: "ping" };
+}
+
+/**
+ * Checks the server's choice against what we offered. Throws
+ * a `ProtocolVersionError` if we can't speak the chosen version. Capabilities
+ * we didn't offer are ignored.
+ */
+export function negotiateProtocol(msg: HelloServerMsg): NegotiatedProtocol {
+  if (msg.v === undefined || !PROTOCOL_VERSIONS.includes(msg.v)) {
+    throw new ProtocolVersionError(msg.v ?? null);
+  }
+
+  const chosen = msg.caps ?? [];
+  return {
+    version: msg.v,
+    capabilities: SUPPORTED_CAPABILITIES.filter((cap) => chosen.includes(cap)),
+  };
+}
+
+/**
+ * One handler per kind of server message. Control messages are keyed by
+ * their op.
+ */
+export type ServerMsgHandlers = {
+  hello(msg: HelloServerMsg): void;
+  pong(msg: PongServerMsg): void;
+  channel_join(msg: ChannelJoinServerMsg): void;
+  peer_online(msg: PeerOnlineServerMsg): void;
+  peer_offline(msg: PeerOfflineServerMsg): void;
+  peer_state(msg: PeerStateServerMsg): void;
+  data(msg: DataServerMsg): void;
+  error(msg: ErrorServerMsg): void;
+};
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function isOptional<T>(
+  guard: (value: unknown) => value is T,
+  value: unknown
+): value is T | undefined {
+  return value === undefined || guard(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString);
+}
+
+function isBytes(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array;
+}
+
+function isPeerMsg(msg: { [key: string]: unknown }): boolean {
+  return isString(msg.c) && isString(msg.p) && isOptional(isString, msg.cid);
+}
+
+/**
+ * Validates a single decoded server message. Throws a `ProtocolError` if it
+ * is malformed, or of an unknown kind.
+ */
+export function parseServerMsg(value: unknown): ServerMsg {
+  if (!isPlainObject(value)) {
+    throw new ProtocolError("Expected server message to be an object", value);
+  }
+
+  let valid: boolean;
+  if (value.t === "data") {
+    valid = isPeerMsg(value) && isBytes(value.pl);
+  } else if (value.t === "error") {
+    valid =
+      isNumber(value.code) &&
+      isOptional(isString, value.reason) &&
+      isOptional(isString, value.c);
+  } else if (value.t === "control") {
+    switch (value.op) {
+      case "hello":
+        valid =
+          isOptional(isNumber, value.v) &&
+          isOptional(isStringArray, value.caps) &&
+          isOptional(isString, value.cid);
+        break;
+
+      case "pong":
+        valid = true;
+        break;
+
+      case "channel_join":
+        valid =
+          isString(value.c) &&
+          isOptional(isNumber, value.code) &&
+          isOptional(isString, value.reason);
+        break;
+
+      case "peer_online":
+      case "peer_offline":
+        valid = isPeerMsg(value);
+        break;
+
+      case "peer_state":
+        valid = isPeerMsg(value) && isBytes(value.pl);
+        break;
+
+      default:
+        throw new ProtocolError(
+          `Unknown control message: ${String(value.op)}`,
+          value
+        );
+    }
+  } else {
+    throw new ProtocolError(
+      `Unknown server message type: ${String(value.t)}`,
+      value
+    );
+  }
+
+  if (!valid) {
+    throw new ProtocolError("Malformed server message", value);
+  }
+  return value as ServerMsg;
+}
+
+/**
+ * Decodes and validates the payload of a data message.
+ */
+export function decodeBroadcastPayload(pl: Uint8Array): BroadcastPayload {
+  const payload = tryDecode(pl);
+  if (!isPlainObject(payload) || !isString(payload.event)) {
+    throw new ProtocolError("Malformed broadcast payload", payload);
+  }
+  return { event: payload.event, data: payload.data };
+}
+
+/**
+ * Decodes and validates the presence in a peer_state message.
+ */
+export function decodePresence(pl: Uint8Array): { [key: string]: unknown } {
+  const presence = tryDecode(pl);
+  if (!isPlainObject(presence)) {
+    throw new ProtocolError("Expected presence to be an object", presence);
+  }
+  return presence;
+}
+
+function tryDecode(bytes: Uint8Array): unknown {
+  try {
+    return msgpack.decode(bytes);
+  } catch {
+    throw new ProtocolError("Could not decode msgpack data", bytes);
+  }
+}
+
+function dispatch(msg: ServerMsg, handlers: ServerMsgHandlers): void {
+  switch (msg.t) {
+    case "data":
+      return handlers.data(msg);
+
+    case "error":
+      return handlers.error(msg);
+
+    case "control":
+      switch (msg.op) {
+        case "hello":
+          return handlers.hello(msg);
+        case "pong":
+          return handlers.pong(msg);
+        case "channel_join":
+          return handlers.channel_join(msg);
+        case "peer_online":
+          return handlers.peer_online(msg);
+        case "peer_offline":
+          return handlers.peer_offline(msg);
+        case "peer_state":
+          return handlers.peer_state(msg);
+      }
+  }
+}
+
+/**
+ * Returns a function that decodes an incoming frame, and calls the matching
+ * handler for every message in it. Messages that cannot be decoded, or that
+ * don't follow the protocol, are reported through `onProtocolError`, without
+ * affecting the other messages in the frame. Any other error thrown while
+ * handling a message is logged, and doesn't affect the other messages either.
+ *
+ * The optional `onMessage` callback gets to see every valid message, before
+ * its handler is called.
+ */
+export function createServerMsgDispatcher(
+  handlers: ServerMsgHandlers,
+  onProtocolError: (error: ProtocolError) => void,
+  logger: Logger,
+  onMessage?: (msg: ServerMsg) => void
+): (frame: Uint8Array) => void {
+  return (frame) => {
+    let decoded: unknown;
+    try {
+      decoded = tryDecode(frame);
+    } catch (err) {
+      onProtocolError(err as ProtocolError);
+      return;
+    }
+
+    // Just like our outgoing frames, a single frame may hold a batch of
+    // messages
+    const values: unknown[] = Array.isArray(decoded) ? decoded : [decoded];
+    for (const value of values) {
+      try {
+        const msg = parseServerMsg(value);
+        logger.debug("Received message", {
+          channelId: "c" in msg ? msg.c : undefined,
+          type: msg.t === "control" ? msg.op : msg.t,
+        });
+        onMessage?.(msg);
+        dispatch(msg, handlers);
+      } catch (err) {
+        // Handlers may reject message payloads too. Anything else is a bug in
+        // a handler (or in a listener it called), which shouldn't keep the
+        // other messages in the frame from being handled.
+        if (err instanceof ProtocolError) {
+          onProtocolError(err);
+        } else {
+          logger.error("Failed to handle message", { error: err });
+        }
+      }
+    }
+  };
+}
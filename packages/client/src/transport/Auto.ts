@@ -0,0 +1,138 @@
+import {
+  type ITransportCloseEvent,
+  type ITransportEvent,
+  type ITransportInstance,
+  type ITransportMessageEvent,
+  type TransportReadyState,
+} from ".";
+import { makeEventSource, type UnsubscribeCallback } from "../lib/EventSource";
+import { createConsoleLogger, type Logger } from "../logger";
+import { Transport as WsTransport } from "./WebSocket";
+import {
+  isWebTransportSupported,
+  Transport as WtTransport,
+} from "./WebTransport";
+
+export type TransportKind = "websocket" | "webtransport";
+
+/**
+ * Remembers which kind of transport to use. Once WebTransport failed to
+ * connect, later reconnects will go straight to WebSocket.
+ */
+export type TransportPreference = {
+  kind: TransportKind;
+};
+
+/**
+ * Maximum amount of time that a WebTransport session may take to become
+ * ready, before we fall back to WebSocket.
+ */
+const WEBTRANSPORT_READY_TIMEOUT = 3_000;
+
+/**
+ * Tries to connect using WebTransport first, and transparently falls back to
+ * a WebSocket connection if the WebTransport session cannot be established.
+ */
+export class AutoTransport implements ITransportInstance {
+  events = {
+    open: makeEventSource<ITransportEvent>(),
+    close: makeEventSource<ITransportCloseEvent>(),
+    error: makeEventSource<ITransportEvent>(),
+    message: makeEventSource<ITransportMessageEvent>(),
+  };
+
+  private inner: ITransportInstance;
+  private unsubs: UnsubscribeCallback[] = [];
+
+  // Whether we're still waiting for a WebTransport session to become ready.
+  // Until then, any error or close means we should fall back, rather than
+  // reporting a failed connection attempt.
+  private probing = false;
+  private readyTimerID: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private addresses: Record<TransportKind, string>,
+    private preference: TransportPreference,
+    private logger: Logger = createConsoleLogger()
+  ) {
+    this.inner = this.forward(
+      preference.kind === "webtransport" && isWebTransportSupported()
+        ? this.tryWebTransport()
+        : new WsTransport(addresses.websocket, logger)
+    );
+  }
+
+  get readyState(): TransportReadyState {
+    return this.inner.readyState;
+  }
+
+  close(): void {
+    clearTimeout(this.readyTimerID);
+    this.events.close.clear();
+    this.events.error.clear();
+    this.events.message.clear();
+    this.stopForwarding();
+    this.inner.close();
+  }
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+    this.inner.send(data);
+  }
+
+  private tryWebTransport(): ITransportInstance {
+    try {
+      const wt = new WtTransport(this.addresses.webtransport, this.logger);
+      this.probing = true;
+      this.readyTimerID = setTimeout(
+        () => this.fallBack(),
+        WEBTRANSPORT_READY_TIMEOUT
+      );
+      return wt;
+    } catch {
+      this.preference.kind = "websocket";
+      return new WsTransport(this.addresses.websocket, this.logger);
+    }
+  }
+
+  private fallBack(): void {
+    clearTimeout(this.readyTimerID);
+    this.probing = false;
+    this.preference.kind = "websocket";
+    this.logger.info("WebTransport unavailable, falling back to WebSocket");
+
+    this.stopForwarding();
+    this.inner.close();
+    this.inner = this.forward(
+      new WsTransport(this.addresses.websocket, this.logger)
+    );
+  }
+
+  /**
+   * Re-emits the events of the given transport on this instance.
+   */
+  private forward(transport: ITransportInstance): ITransportInstance {
+    this.stopForwarding();
+    this.unsubs = [
+      transport.events.open.subscribe((e) => {
+        clearTimeout(this.readyTimerID);
+        this.probing = false;
+        this.events.open.notify(e);
+      }),
+      transport.events.close.subscribe((e) =>
+        this.probing ? this.fallBack() : this.events.close.notify(e)
+      ),
+      transport.events.error.subscribe((e) =>
+        this.probing ? this.fallBack() : this.events.error.notify(e)
+      ),
+      transport.events.message.subscribe((e) => this.events.message.notify(e)),
+    ];
+    return transport;
+  }
+
+  private stopForwarding(): void {
+    let unsub: UnsubscribeCallback | undefined;
+    while ((unsub = this.unsubs.pop())) {
+      unsub();
+    }
+  }
+}
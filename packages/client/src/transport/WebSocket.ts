@@ -1,4 +1,5 @@
 import {
+  toLoggableAddress,
   TransportEventType,
   TransportReadyState,
   type ITransport,
@@ -8,6 +9,7 @@ import {
   type ITransportMessageEvent,
 } from ".";
 import { makeEventSource } from "../lib/EventSource";
+import { createConsoleLogger, type Logger } from "../logger";
 
 class WS implements ITransportInstance {
   readyState = TransportReadyState.CONNECTING;
@@ -19,8 +21,15 @@ class WS implements ITransportInstance {
   };
 
   private ws: WebSocket;
-  constructor(address: string, WS: typeof WebSocket = WebSocket) {
+  constructor(
+    address: string,
+    logger: Logger = createConsoleLogger(),
+    WS: typeof WebSocket = WebSocket
+  ) {
     this.ws = new WS(address);
+    logger.debug("Connecting over WebSocket", {
+      address: toLoggableAddress(address),
+    });
 
     this.ws.binaryType = "arraybuffer";
 
@@ -1,4 +1,5 @@
 import {
+  toLoggableAddress,
   TransportEventType,
   TransportReadyState,
   type ITransport,
@@ -7,7 +8,8 @@ import {
   type ITransportInstance,
   type ITransportMessageEvent,
 } from ".";
-import { makeEventSource, type UnsubscribeCallback } from "../lib/EventSource";
+import { makeEventSource } from "../lib/EventSource";
+import { createConsoleLogger, type Logger } from "../logger";
 
 class WT implements ITransportInstance {
   readyState = TransportReadyState.CONNECTING;
@@ -22,7 +24,10 @@ class WT implements ITransportInstance {
   private wt: WebTransport | null = null;
   private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
 
-  constructor(address: string) {
+  constructor(
+    address: string,
+    private logger: Logger = createConsoleLogger()
+  ) {
     this.wt = new WebTransport(address);
 
     this.wt.closed
@@ -35,7 +40,7 @@ class WT implements ITransportInstance {
         });
       })
       .catch((err) => {
-        console.error("transport closed due to %s", err);
+        this.logger.error("Transport closed due to an error", { error: err });
         // this.onError("webtransport error", err);
       });
 
@@ -66,7 +71,7 @@ class WT implements ITransportInstance {
               read();
             })
             .catch((err) => {
-              console.error("failed to read data: %s", err);
+              this.logger.error("Failed to read data", { error: err });
               this.events.error.notify({ type: TransportEventType.ERROR });
             });
         };
@@ -74,11 +79,13 @@ class WT implements ITransportInstance {
         read();
       })
       .catch((err) => {
-        console.error("failed to open transport: %s", err);
+        this.logger.error("Failed to open transport", { error: err });
         this.events.error.notify({ type: TransportEventType.ERROR });
       });
 
-    console.log("connect to :", address);
+    this.logger.debug("Connecting over WebTransport", {
+      address: toLoggableAddress(address),
+    });
   }
 
   close(): void {
@@ -91,10 +98,28 @@ class WT implements ITransportInstance {
   send(data: Uint8Array): void {
     if (this.writer) {
       this.writer.write(data).catch((err) => {
-        console.error("failed to send data: %s", err);
+        this.logger.error("Failed to send data", { error: err });
       });
     }
   }
 }
 
 export const Transport: ITransport = WT;
+
+export function isWebTransportSupported(): boolean {
+  return typeof WebTransport !== "undefined";
+}
+
+/**
+ * WebTransport sessions are established over HTTP/3, so they need an https://
+ * URL where a WebSocket would use wss://.
+ */
+export function toWebTransportUrl(address: string): string {
+  const url = new URL(address);
+  if (url.protocol === "wss:") {
+    url.protocol = "https:";
+  } else if (url.protocol === "ws:") {
+    url.protocol = "http:";
+  }
+  return url.toString();
+}
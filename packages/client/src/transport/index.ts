@@ -1,4 +1,5 @@
 import type { EventSource } from "../lib/EventSource";
+import type { Logger } from "../logger";
 
 export enum TransportReadyState {
   CONNECTING = 0,
@@ -41,6 +42,15 @@ export interface ITransportInstance {
   send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void;
 }
 
+/**
+ * Strips the query string (holding the auth token) from the address, so it's
+ * safe to log.
+ */
+export function toLoggableAddress(address: string): string {
+  const url = new URL(address);
+  return `${url.origin}${url.pathname}`;
+}
+
 export interface ITransport {
-  new (address: string): ITransportInstance;
+  new (address: string, logger?: Logger): ITransportInstance;
 }